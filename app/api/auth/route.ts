@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+    ADMIN_COOKIE_NAME,
+    clearSessionCookie,
+    isAdminLoginConfigured,
+    isAdminRequest,
+    login,
+    logout,
+    setSessionCookie,
+} from "@/lib/adminAuth";
+
+/**
+ * GET /api/auth
+ * Reports whether the caller holds a valid admin session cookie
+ */
+export async function GET(request: NextRequest) {
+    return NextResponse.json({
+        authenticated: isAdminRequest(request),
+        configured: isAdminLoginConfigured(),
+    });
+}
+
+/**
+ * POST /api/auth
+ * Admin login - checks credentials and issues an HttpOnly session cookie
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (!isAdminLoginConfigured()) {
+            return NextResponse.json(
+                { success: false, error: "Admin login is not configured" },
+                { status: 503 }
+            );
+        }
+
+        const token = login(String(body.username ?? ""), String(body.password ?? ""));
+        if (!token) {
+            return NextResponse.json(
+                { success: false, error: "Invalid credentials" },
+                { status: 401 }
+            );
+        }
+
+        const response = NextResponse.json({ success: true });
+        setSessionCookie(response, token);
+        return response;
+    } catch (error) {
+        console.error("[Auth API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to process login" },
+            { status: 400 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/auth
+ * Admin logout - invalidates the session and clears the cookie
+ */
+export async function DELETE(request: NextRequest) {
+    logout(request.cookies.get(ADMIN_COOKIE_NAME)?.value);
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+}
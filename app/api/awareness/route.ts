@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { AwarenessResponse, getVisitorStats } from "@/lib/stats";
+
+/**
+ * GET /api/awareness
+ * Public, anonymous counts for the presenter screen (/presenter):
+ * how many visitors answered the exhibit notice and how many of them
+ * granted camera, microphone and location access. No per-visitor data.
+ */
+export async function GET() {
+    try {
+        const response: AwarenessResponse = {
+            permissions: getVisitorStats().permissions,
+        };
+
+        return NextResponse.json(response);
+    } catch (error) {
+        console.error("[Awareness API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to load statistics" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIp, releaseClient } from "@/lib/captivePortal";
+
+/**
+ * POST /api/captive/release
+ * Called by /reveal: from now on this client's connectivity probes are
+ * answered "online", so the OS closes its captive portal sheet.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        releaseClient(getClientIp(request));
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[Captive API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordConsent } from "@/lib/sessions";
+
+/**
+ * POST /api/consent
+ *
+ * Records the visitor's answer to the exhibit notice shown before the
+ * "Not a Robot" captcha opens the camera. Returns the sessionId that
+ * later /api/track and /api/media requests must carry.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.granted !== "boolean") {
+            return NextResponse.json(
+                { success: false, error: "Missing consent decision" },
+                { status: 400 }
+            );
+        }
+
+        const sessionId = typeof body.sessionId === "string" ? body.sessionId : undefined;
+        const result = recordConsent(body.granted, sessionId);
+
+        return NextResponse.json({
+            success: true,
+            sessionId: result.sessionId,
+            consent: result.consent,
+        });
+    } catch (error) {
+        console.error("[Consent API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to record consent" },
+            { status: 500 }
+        );
+    }
+}
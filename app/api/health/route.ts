@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getHealthReport } from "@/lib/health";
+import { requireAdmin } from "@/lib/adminAuth";
+
+/**
+ * GET /api/health
+ * DNS server heartbeat, broker, client counts, ingest rate and memory
+ * (admin session required). 503 while any check is down.
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    try {
+        const report = getHealthReport();
+        return NextResponse.json(report, { status: report.status === "down" ? 503 : 200 });
+    } catch (error) {
+        console.error("[Health API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to check health" },
+            { status: 500 }
+        );
+    }
+}
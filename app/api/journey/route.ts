@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordJourneyStage } from "@/lib/sessions";
+import { isJourneyStage } from "@/lib/journey";
+
+/**
+ * POST /api/journey
+ *
+ * Page-step beacon: { sessionId, stage } is sent by each page of the
+ * exhibit flow when a visitor reaches it (see lib/journey.ts). Feeds the
+ * funnel in GET /api/stats. Returns the sessionId to keep using, which
+ * is a new one when the visitor had none.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        if (!isJourneyStage(body.stage)) {
+            return NextResponse.json(
+                { success: false, error: "Unknown stage" },
+                { status: 400 }
+            );
+        }
+
+        const sessionId = typeof body.sessionId === "string" ? body.sessionId : undefined;
+
+        return NextResponse.json({
+            success: true,
+            sessionId: recordJourneyStage(sessionId, body.stage),
+        });
+    } catch (error) {
+        console.error("[Journey API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to record stage" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateMedia, getMedia, hasMediaConsent, isFeedTerminated, MediaCapture } from "@/lib/sessions";
+import { publishFrame } from "@/lib/frameStream";
+import { startIngestTimer } from "@/lib/mediaMetrics";
+import { getTargetFps } from "@/lib/frameRate";
+
+// Audio level / location updates are pushed to admins at most this often;
+// the frames themselves go out on the MJPEG stream at full rate
+const METADATA_INTERVAL_MS = 250;
+
+/**
+ * Frame metadata, sent as JSON in the X-Siren-Media header
+ */
+interface FrameMetadata {
+    sessionId?: unknown;
+    audioLevel?: unknown;
+    location?: { latitude: number; longitude: number; accuracy: number } | null;
+    permissions?: { camera?: unknown; microphone?: unknown; geolocation?: unknown };
+    capturedAt?: unknown;
+}
+
+function parseMetadata(header: string | null): FrameMetadata | undefined {
+    if (!header) return undefined;
+    try {
+        return JSON.parse(header);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * POST /api/media/frame
+ *
+ * Binary frame upload for the live stream: the body is a raw JPEG
+ * (Content-Type: image/jpeg, may be empty when no frame was ready) and the
+ * metadata travels in the X-Siren-Media header. Frames are fanned out to
+ * admins over MJPEG by /api/media/stream/<sessionId>.
+ * Same consent, operator terminate and targetFps responses as POST /api/media.
+ */
+export async function POST(request: NextRequest) {
+    const stopTimer = startIngestTimer("binary");
+
+    try {
+        const meta = parseMetadata(request.headers.get("x-siren-media"));
+
+        // Refuse frames from sessions without recorded consent
+        const sessionId = typeof meta?.sessionId === "string" ? meta.sessionId : undefined;
+        if (!meta || !sessionId || !hasMediaConsent(sessionId)) {
+            return NextResponse.json(
+                { success: false, error: "Consent required" },
+                { status: 403 }
+            );
+        }
+
+        // Operator ended this feed - tell the visitor's browser to stop
+        if (isFeedTerminated(sessionId)) {
+            return NextResponse.json({
+                success: false,
+                command: "terminate",
+                error: "Feed terminated by operator",
+            });
+        }
+
+        if (!meta.permissions || typeof meta.capturedAt !== "string") {
+            return NextResponse.json(
+                { success: false, error: "Missing required fields" },
+                { status: 400 }
+            );
+        }
+
+        const jpeg = new Uint8Array(await request.arrayBuffer());
+
+        const media: MediaCapture = {
+            binaryFrames: true,
+            audioLevel: typeof meta.audioLevel === "number" ? meta.audioLevel : undefined,
+            location: meta.location ? {
+                latitude: meta.location.latitude,
+                longitude: meta.location.longitude,
+                accuracy: meta.location.accuracy,
+            } : undefined,
+            permissions: {
+                camera: !!meta.permissions.camera,
+                microphone: !!meta.permissions.microphone,
+                geolocation: !!meta.permissions.geolocation,
+            },
+            capturedAt: meta.capturedAt,
+            receivedAt: new Date().toISOString(),
+            isLive: true,
+            sessionId,
+        };
+
+        // Metadata goes over SSE, throttled; the first upload always announces the feed
+        const previous = getMedia(sessionId);
+        const metadataDue = !previous?.binaryFrames ||
+            !!previous.endedAt ||
+            Date.parse(media.receivedAt) - Date.parse(previous.receivedAt) >= METADATA_INTERVAL_MS;
+        if (metadataDue) {
+            updateMedia(media);
+        }
+
+        if (jpeg.byteLength > 0) {
+            publishFrame(sessionId, jpeg);
+            stopTimer(jpeg.byteLength);
+        }
+
+        return NextResponse.json({ success: true, targetFps: getTargetFps() });
+    } catch (error) {
+        console.error("[Media API] Frame error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to process frame" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMediaMetrics, resetMediaMetrics } from "@/lib/mediaMetrics";
+import { getFrameRateStatus } from "@/lib/frameRate";
+import { requireAdmin } from "@/lib/adminAuth";
+
+/**
+ * GET /api/media/metrics
+ * Bandwidth and approximate process CPU counters for the JSON and binary frame transports,
+ * plus the current target frame rate (admin session required)
+ */
+export async function GET(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    return NextResponse.json({ ...getMediaMetrics(), frameRate: getFrameRateStatus() });
+}
+
+/**
+ * DELETE /api/media/metrics
+ * Start a new measurement window
+ */
+export async function DELETE(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    resetMediaMetrics();
+    return NextResponse.json({ success: true });
+}
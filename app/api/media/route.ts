@@ -1,27 +1,71 @@
 import { NextRequest, NextResponse } from "next/server";
-import { updateMedia, MediaCapture } from "@/lib/sessions";
+import { updateMedia, endMedia, hasMediaConsent, isFeedTerminated, MediaCapture } from "@/lib/sessions";
+import { requireAdmin } from "@/lib/adminAuth";
+import { startIngestTimer } from "@/lib/mediaMetrics";
+import { getTargetFps } from "@/lib/frameRate";
 
 /**
  * POST /api/media
  * 
  * Receives media snapshot data (webcam frame, audio level, location)
  * from the portal's "Not a Robot" verification and broadcasts to admin.
+ * Frames are only accepted from sessions that accepted the exhibit notice,
+ * and are stored per session so simultaneous visitors get separate feeds.
+ * A body with `ended: true` closes the session's feed instead.
+ *
+ * Live streams now send frames to /api/media/frame (binary); this
+ * JSON path is kept for the photo capture and older clients.
+ *
+ * Responses double as the server-to-visitor control channel:
+ * `command: "terminate"` tells the visitor's browser to stop streaming.
+ * `targetFps` is the frame rate the visitor should send at (lib/frameRate.ts).
  */
 export async function POST(request: NextRequest) {
+    const stopTimer = startIngestTimer("json");
+
     try {
-        const body = await request.json();
+        const raw = await request.text();
+        const body = JSON.parse(raw);
+
+        // Refuse frames from sessions without recorded consent
+        const sessionId = typeof body.sessionId === 'string' ? body.sessionId : undefined;
+        if (!sessionId || !hasMediaConsent(sessionId)) {
+            return NextResponse.json(
+                { success: false, error: "Consent required" },
+                { status: 403 }
+            );
+        }
+
+        // Operator ended this feed - tell the visitor's browser to stop
+        if (isFeedTerminated(sessionId)) {
+            return NextResponse.json({
+                success: false,
+                command: "terminate",
+                error: "Feed terminated by operator",
+            });
+        }
+
+        // Stream lifecycle end point reached on the visitor's device
+        if (body.ended === true) {
+            endMedia(sessionId, typeof body.reason === 'string' ? body.reason : 'ended');
+            return NextResponse.json({ success: true });
+        }
 
         // Validate required fields
-        if (!body.permissions || body.capturedAt === undefined) {
+        if (!body.permissions || typeof body.capturedAt !== 'string') {
             return NextResponse.json(
                 { success: false, error: "Missing required fields" },
                 { status: 400 }
             );
         }
 
+        // Live stream sends one `frame`; the photo capture sends a `frames` array
+        const photos: unknown[] | undefined = Array.isArray(body.frames) ? body.frames : undefined;
+        const frame = photos ? photos[photos.length - 1] : body.frame;
+
         // Transform to MediaCapture format
         const media: MediaCapture = {
-            frame: typeof body.frame === 'string' ? body.frame : undefined,
+            frame: typeof frame === 'string' ? frame : undefined,
             audioLevel: body.audioLevel ?? undefined,
             location: body.location ? {
                 latitude: body.location.latitude,
@@ -34,13 +78,16 @@ export async function POST(request: NextRequest) {
                 geolocation: !!body.permissions.geolocation,
             },
             capturedAt: body.capturedAt,
-            isLive: true,
+            receivedAt: new Date().toISOString(),
+            isLive: !photos,
+            sessionId,
         };
 
         // Update session state and notify admin clients
         updateMedia(media);
+        if (media.frame) stopTimer(raw.length);
 
-        return NextResponse.json({ success: true });
+        return NextResponse.json({ success: true, targetFps: getTargetFps() });
     } catch (error) {
         console.error("[Media API] Error:", error);
         return NextResponse.json(
@@ -52,9 +99,13 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/media
- * Health check for the media endpoint
+ * Liveness check for the media endpoint (admin session required;
+ * system health: GET /api/health)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
     return NextResponse.json({
         status: "ok",
         message: "Media endpoint active",
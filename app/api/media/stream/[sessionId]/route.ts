@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMedia } from "@/lib/sessions";
+import { createMjpegStream, MJPEG_BOUNDARY } from "@/lib/frameStream";
+import { getSessionToken, requireAdmin } from "@/lib/adminAuth";
+
+/**
+ * GET /api/media/stream/<sessionId>
+ *
+ * Live MJPEG stream of one visitor's camera (admin session required).
+ * Used directly as an <img> src by the dashboard's LiveFeedPanel.
+ * The stream closes when the visitor's feed ends or the admin session ends.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ sessionId: string }> }
+): Promise<Response> {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    const { sessionId } = await params;
+    const media = getMedia(sessionId);
+    if (!media || media.endedAt) {
+        return NextResponse.json(
+            { success: false, error: "No live feed for this session" },
+            { status: 404 }
+        );
+    }
+
+    return new Response(createMjpegStream(sessionId, getSessionToken(request)!), {
+        headers: {
+            "Content-Type": `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}`,
+            "Cache-Control": "no-cache, no-store, no-transform",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
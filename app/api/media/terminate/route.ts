@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { terminateFeed } from "@/lib/sessions";
+import { requireAdmin } from "@/lib/adminAuth";
+
+/**
+ * POST /api/media/terminate
+ *
+ * Operator kill switch (admin session required).
+ * Ends the given visitor's live feed; their browser is told to stop
+ * its camera and move on to /reveal on its next frame upload.
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    try {
+        const body = await request.json();
+
+        if (typeof body.sessionId !== "string" || !body.sessionId) {
+            return NextResponse.json(
+                { success: false, error: "Missing sessionId" },
+                { status: 400 }
+            );
+        }
+
+        terminateFeed(body.sessionId);
+        console.log(`[Media API] Feed terminated by operator: ${body.sessionId}`);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[Media API] Terminate error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to terminate feed" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveScenario, setActiveScenario } from "@/lib/activeScenario";
+import { requireAdmin } from "@/lib/adminAuth";
+import { isScenarioId } from "@/lib/scenarios";
+
+/**
+ * GET /api/scenario
+ * The scenario new visitors get (lib/scenarios.ts). Public - read by the
+ * exhibit pages when a visitor starts.
+ */
+export async function GET() {
+    return NextResponse.json({ scenarioId: getActiveScenario().id });
+}
+
+/**
+ * POST /api/scenario
+ * Switch the active scenario (admin session required).
+ * Visitors already in the exhibit finish the one they started.
+ */
+export async function POST(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
+
+    try {
+        const body = await request.json();
+
+        if (!isScenarioId(body.scenarioId)) {
+            return NextResponse.json(
+                { success: false, error: "Unknown scenario" },
+                { status: 400 }
+            );
+        }
+
+        setActiveScenario(body.scenarioId);
+        console.log(`[Scenario API] Active scenario: ${body.scenarioId}`);
+
+        return NextResponse.json({ success: true, scenarioId: body.scenarioId });
+    } catch (error) {
+        console.error("[Scenario API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to switch scenario" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,16 +1,28 @@
-import { NextResponse } from "next/server";
-import { getStats } from "@/lib/sessions";
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentVictim, getRecentVictims } from "@/lib/sessions";
+import { getVisitorStats, StatsResponse } from "@/lib/stats";
+import { getRetentionStatus } from "@/lib/retention";
+import { getConfig } from "@/lib/config";
+import { requireAdmin } from "@/lib/adminAuth";
+import { getActiveScenario } from "@/lib/activeScenario";
 
 /**
  * GET /api/stats
- * Returns current session statistics
+ * Returns visitor statistics and recent visitors (admin session required).
+ * The dashboard reads the StatsResponse as is.
  */
-export async function GET() {
-    const stats = getStats();
+export async function GET(request: NextRequest) {
+    const unauthorized = requireAdmin(request);
+    if (unauthorized) return unauthorized;
 
-    return NextResponse.json({
-        count: stats.count,
-        deviceBreakdown: stats.deviceBreakdown,
-        recentVictims: stats.victims.slice(-20).reverse(),
-    });
+    const response: StatsResponse = {
+        visitors: getVisitorStats(),
+        recentVictims: getRecentVictims(20).reverse(),
+        currentVictim: getCurrentVictim(),
+        retention: getRetentionStatus(),
+        piiMode: getConfig().privacy.piiMode,
+        scenarioId: getActiveScenario().id,
+    };
+
+    return NextResponse.json(response);
 }
@@ -1,18 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addVictim, addVictimWithProfile, notifyClients, notifyCurrentVictim } from "@/lib/sessions";
+import { addVictim, addVictimWithProfile, issueDeletionCode, notifyClients, notifyCurrentVictim } from "@/lib/sessions";
 import { Fingerprint } from "@/lib/fingerprint";
+import { redactAtIngest } from "@/lib/redaction";
+import { getConfig } from "@/lib/config";
+import { getClientIp } from "@/lib/captivePortal";
 
 /**
  * POST /api/track
  * 
  * Accepts comprehensive fingerprint data from portal form submission.
  * Stores extended victim profile and notifies admin dashboards.
+ * Name, phone and email are redacted (privacy.piiMode) before storage.
  */
 export async function POST(request: NextRequest) {
     try {
         const userAgent = request.headers.get("user-agent") || "Unknown";
-        const forwarded = request.headers.get("x-forwarded-for");
-        const ip = forwarded?.split(",")[0] || request.headers.get("x-real-ip") || "Unknown";
+        const ip = getClientIp(request);
 
         // Try to parse extended fingerprint data
         let body: {
@@ -20,30 +23,31 @@ export async function POST(request: NextRequest) {
             phone?: string;
             email?: string;
             fingerprint?: Fingerprint;
+            sessionId?: string;
         } = {};
 
         try {
             body = await request.json();
-            console.log("Track API received body keys:", Object.keys(body));
-            console.log("Has fingerprint?", !!body.fingerprint);
-            if (body.fingerprint) {
-                console.log("Fingerprint device type:", body.fingerprint.device?.type);
-            }
-        } catch (e) {
-            console.log("Track API failed to parse body:", e);
+        } catch {
+            // No or malformed body - track the visit from the request headers.
+            // Not logged: the parse error can quote the submitted PII.
         }
 
+        // Redact PII before anything is stored or broadcast
+        const redacted = await redactAtIngest({
+            name: body.name || undefined,
+            phone: body.phone || undefined,
+            email: body.email || undefined,
+        }, getConfig().privacy);
+
         // Check if we have extended fingerprint data
         if (body.fingerprint) {
             // Use extended profile tracking
             const profile = await addVictimWithProfile(
                 body.fingerprint,
                 ip,
-                {
-                    name: body.name || undefined,
-                    phone: body.phone || undefined,
-                    email: body.email || undefined,
-                }
+                redacted,
+                typeof body.sessionId === "string" ? body.sessionId : undefined
             );
 
             // Notify admin dashboards with full profile
@@ -54,14 +58,11 @@ export async function POST(request: NextRequest) {
                 success: true,
                 victimId: profile.id,
                 sessionId: profile.sessionId,
+                deletionCode: issueDeletionCode(profile.sessionId),
             });
         } else {
             // Legacy tracking (backward compatibility)
-            const formData = (body.name || body.phone || body.email) ? {
-                name: body.name,
-                phone: body.phone,
-                email: body.email,
-            } : undefined;
+            const formData = (redacted.name || redacted.phone || redacted.email) ? redacted : undefined;
 
             const victim = addVictim(userAgent, ip, formData);
             notifyClients(victim);
@@ -82,7 +83,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/track
- * Health check for the tracking endpoint
+ * Liveness check for the tracking endpoint (system health: GET /api/health)
  */
 export async function GET() {
     return NextResponse.json({
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUniqueness } from "@/lib/uniqueness";
+
+/**
+ * GET /api/uniqueness?sessionId=...
+ * Public browser uniqueness meter for /reveal and /presenter: how many of
+ * today's visitors share each fingerprint attribute (lib/uniqueness.ts).
+ * With a sessionId, adds that visitor's own "1 in N" standing.
+ * Returns counts only - no attribute values, no other visitors' data.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const sessionId = request.nextUrl.searchParams.get("sessionId") || undefined;
+        return NextResponse.json(getUniqueness(sessionId));
+    } catch (error) {
+        console.error("[Uniqueness API] Error:", error);
+        return NextResponse.json(
+            { success: false, error: "Failed to compute uniqueness" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { answerProbe } from "@/lib/captivePortal";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /connecttest.txt
+ * Windows 10/11 connectivity check (www.msftconnecttest.com).
+ * Answered per client by lib/captivePortal.ts.
+ */
+export async function GET(request: NextRequest) {
+    return answerProbe(request, "windows");
+}
@@ -1,7 +1,9 @@
 "use client";
 
+import { useEffect } from "react";
 import { motion } from "framer-motion";
 import Link from "next/link";
+import { DataDeletionCard } from "@/components/ui";
 import styles from "./page.module.css";
 
 /**
@@ -31,6 +33,12 @@ const TEAM_MEMBERS = [
 ];
 
 export default function CreditsPage() {
+    // End of the exhibit - give the visitor's device its internet back, as /reveal does
+    useEffect(() => {
+        fetch("/api/captive/release", { method: "POST" })
+            .catch(error => console.error("[Credits] Failed to release captive portal:", error));
+    }, []);
+
     const containerVariants = {
         hidden: { opacity: 0 },
         visible: {
@@ -125,6 +133,11 @@ export default function CreditsPage() {
                     </div>
                 </motion.section>
 
+                {/* Delete my data */}
+                <motion.section className={styles.deletionSection} variants={itemVariants}>
+                    <DataDeletionCard />
+                </motion.section>
+
                 {/* Footer */}
                 <motion.footer className={styles.footer} variants={itemVariants}>
                     <p className={styles.exhibitionNote}>
@@ -1,8 +1,10 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
+import { trackStage } from "@/lib/journey";
+import { publicConfig } from "@/lib/publicConfig";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
 import styles from "./page.module.css";
 
 /**
@@ -29,8 +31,25 @@ const formatIndianCurrency = (amount: number) => {
     }).format(amount);
 };
 
+const ONES = ["", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+    "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen"];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// Whole number in Indian words: 185000 -> "One Lakh Eighty-Five Thousand"
+const numberInWords = (n: number): string => {
+    const scales: [number, string][] = [[10000000, "Crore"], [100000, "Lakh"], [1000, "Thousand"], [100, "Hundred"]];
+    for (const [size, name] of scales) {
+        if (n >= size) {
+            const rest = n % size;
+            return `${numberInWords(Math.floor(n / size))} ${name}${rest ? ` ${numberInWords(rest)}` : ""}`;
+        }
+    }
+    if (n < 20) return ONES[n];
+    return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : "");
+};
+
 export default function DigitalArrestPage() {
-    const router = useRouter();
+    const { next } = useScenarioNavigator("digital-arrest");
     const [caseId] = useState(generateCaseId());
     const [currentDate] = useState(new Date().toLocaleDateString('en-IN', {
         day: '2-digit',
@@ -41,18 +60,9 @@ export default function DigitalArrestPage() {
     const [isLocked, setIsLocked] = useState(true);
     const [showWarning, setShowWarning] = useState(false);
 
-    const fineAmount = 185000; // ₹1,85,000
-
     // Track visit
     useEffect(() => {
-        const trackVisit = async () => {
-            try {
-                await fetch("/api/track", { method: "POST" });
-            } catch (error) {
-                console.error("Failed to track visit:", error);
-            }
-        };
-        trackVisit();
+        trackStage("digital-arrest");
     }, []);
 
     // Countdown timer
@@ -94,7 +104,7 @@ export default function DigitalArrestPage() {
     };
 
     const handlePayNow = () => {
-        router.push('/digital-arrest/payment');
+        next();
     };
 
     return (
@@ -208,10 +218,10 @@ export default function DigitalArrestPage() {
                         <span className={styles.fineLabel}>PENALTY AMOUNT TO BE PAID:</span>
                     </div>
                     <div className={styles.fineAmount}>
-                        {formatIndianCurrency(fineAmount)}
+                        {formatIndianCurrency(publicConfig.fineAmount)}
                     </div>
                     <div className={styles.fineNote}>
-                        (One Lakh Eighty-Five Thousand Rupees Only)
+                        ({numberInWords(publicConfig.fineAmount)} Rupees Only)
                     </div>
 
                     {/* Countdown Timer */}
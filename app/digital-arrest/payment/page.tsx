@@ -1,8 +1,10 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
+import { trackStage } from "@/lib/journey";
+import { publicConfig } from "@/lib/publicConfig";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
 import styles from "./page.module.css";
 
 /**
@@ -14,7 +16,7 @@ import styles from "./page.module.css";
 
 type PaymentMethod = 'upi' | 'card' | 'netbanking' | null;
 
-const FINE_AMOUNT = 185000;
+const FINE_AMOUNT = publicConfig.fineAmount;
 
 // Indian banks for net banking
 const BANKS = [
@@ -37,7 +39,7 @@ const UPI_APPS = [
 ];
 
 export default function PaymentPage() {
-    const router = useRouter();
+    const { next } = useScenarioNavigator("payment");
     const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [processingStep, setProcessingStep] = useState(0);
@@ -51,6 +53,10 @@ export default function PaymentPage() {
     const [cardName, setCardName] = useState('');
     const [selectedBank, setSelectedBank] = useState('');
 
+    useEffect(() => {
+        trackStage('payment');
+    }, []);
+
     // Prevent back navigation
     useEffect(() => {
         window.history.pushState(null, '', window.location.href);
@@ -100,8 +106,8 @@ export default function PaymentPage() {
             await new Promise(resolve => setTimeout(resolve, 1000));
         }
 
-        // Redirect to reveal page
-        router.push('/reveal');
+        // On to the reveal (or whatever the scenario has next)
+        next();
     };
 
     const isFormValid = () => {
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { answerProbe } from "@/lib/captivePortal";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /generate_204
+ * Android connectivity check (connectivitycheck.gstatic.com).
+ * Answered per client by lib/captivePortal.ts.
+ */
+export async function GET(request: NextRequest) {
+    return answerProbe(request, "android");
+}
@@ -1,7 +1,6 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     MatrixRain,
@@ -10,6 +9,8 @@ import {
     SystemBreachEffect,
 } from "@/components/effects";
 import { VictimData, performOSINT, generateTerminalOutput, OSINTResult } from "@/lib/osint";
+import { trackStage } from "@/lib/journey";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
 import styles from "./page.module.css";
 
 /**
@@ -44,7 +45,7 @@ interface VictimDisplayData {
 }
 
 export default function HackPage() {
-    const router = useRouter();
+    const { next } = useScenarioNavigator("hack");
     const [phase, setPhase] = useState<"loading" | "hacking" | "glitch" | "redirect">("loading");
     const [terminalComplete, setTerminalComplete] = useState(false);
     const [lockComplete, setLockComplete] = useState(false);
@@ -60,6 +61,10 @@ export default function HackPage() {
         setLockComplete(true);
     }, []);
 
+    useEffect(() => {
+        trackStage("hack");
+    }, []);
+
     // Load victim data and generate OSINT
     useEffect(() => {
         const loadVictimData = async () => {
@@ -130,8 +135,8 @@ export default function HackPage() {
     // Handle glitch completion
     const handleGlitchComplete = useCallback(() => {
         setPhase("redirect");
-        router.push("/digital-arrest");
-    }, [router]);
+        next();
+    }, [next]);
 
     // Get display name for suspicious badge
     const getDisplayIdentifier = () => {
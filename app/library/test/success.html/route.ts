@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { answerProbe } from "@/lib/captivePortal";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /library/test/success.html
+ * Captive portal check on older iOS (www.apple.com).
+ * Answered per client by lib/captivePortal.ts.
+ */
+export async function GET(request: NextRequest) {
+    return answerProbe(request, "apple");
+}
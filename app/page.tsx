@@ -1,11 +1,16 @@
 import { redirect } from "next/navigation";
+import { getActiveScenario } from "@/lib/activeScenario";
+import { entryPath } from "@/lib/scenarios";
+
+// The entry step depends on the scenario active right now
+export const dynamic = "force-dynamic";
 
 /**
- * Root page - Redirects to the captive portal
+ * Root page - Redirects to the first step of the active scenario
  * This catches all captive portal requests
  * 
- * Flow: / → /portal → /hack → /digital-arrest → /reveal
+ * Flow (lib/scenarios.ts): / → /portal → /hack → /digital-arrest → /reveal
  */
 export default function Home() {
-  redirect("/portal"); // Wi-Fi login form → OSINT demonstration
+  redirect(entryPath(getActiveScenario())); // Normally the Wi-Fi login form
 }
@@ -1,15 +1,17 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
-import { motion } from "framer-motion";
-import { collectFingerprint } from "@/lib/fingerprint";
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { collectFingerprint, saveFingerprint } from "@/lib/fingerprint";
 import {
     initGlobalStream,
     startGlobalStreaming,
     requestGeolocation,
     getPermissions,
 } from "@/lib/globalStream";
+import { trackStage } from "@/lib/journey";
+import { publicConfig } from "@/lib/publicConfig";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
 import styles from "./page.module.css";
 
 /**
@@ -17,8 +19,22 @@ import styles from "./page.module.css";
  * 
  * Professional-looking Wi-Fi login form that collects
  * user information and device fingerprint for the OSINT demonstration.
+ *
+ * The "Not a Robot" captcha first shows an exhibit notice; the camera
+ * only opens once the visitor accepts it.
  */
 
+// Exhibit notice shown before any camera/microphone access
+const EXHIBIT_BOOTH = [`Project SIREN booth by ${publicConfig.exhibitor}`, publicConfig.school]
+    .filter(Boolean)
+    .join(", ");
+const EXHIBIT_SHOWN_ITEMS = [
+    "Your live camera image",
+    "Your microphone level",
+    "Your approximate location, if you allow it",
+    "Your device and browser details",
+];
+
 interface FormData {
     name: string;
     phone: string;
@@ -32,7 +48,7 @@ interface FormErrors {
 }
 
 export default function PortalPage() {
-    const router = useRouter();
+    const { next } = useScenarioNavigator("portal");
     const [formData, setFormData] = useState<FormData>({
         name: "",
         phone: "",
@@ -43,6 +59,13 @@ export default function PortalPage() {
     const [captchaVerified, setCaptchaVerified] = useState(false);
     const [captchaLoading, setCaptchaLoading] = useState(false);
     const [permissionsGranted, setPermissionsGranted] = useState<boolean>(false);
+    const [showConsent, setShowConsent] = useState(false);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+
+    // Count every visitor who lands here, including those who leave before the notice
+    useEffect(() => {
+        trackStage("portal");
+    }, []);
 
     const validatePhone = (phone: string): boolean => {
         if (!phone) return true; // Optional field
@@ -82,8 +105,9 @@ export default function PortalPage() {
 
         setIsSubmitting(true);
 
-        // Collect comprehensive device fingerprint
+        // Collect comprehensive device fingerprint (kept for the report on /reveal)
         const fingerprint = collectFingerprint();
+        saveFingerprint(fingerprint);
 
         // Store victim data in sessionStorage for the hack page
         const victimData = {
@@ -96,22 +120,32 @@ export default function PortalPage() {
 
         // Send comprehensive fingerprint + form data to server
         try {
-            await fetch("/api/track", {
+            const res = await fetch("/api/track", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
+                    sessionId,
                     name: victimData.name,
                     phone: victimData.phone,
                     email: victimData.email,
                     fingerprint: fingerprint,
                 }),
             });
+
+            // Keep the session and the "delete my data" code for /reveal and /credits
+            const data = await res.json();
+            if (data.sessionId) {
+                sessionStorage.setItem("siren_session", data.sessionId);
+            }
+            if (data.deletionCode) {
+                sessionStorage.setItem("siren_deletion_code", data.deletionCode);
+            }
         } catch (error) {
             console.error("Failed to track:", error);
         }
 
-        // Redirect to hack page
-        router.push("/hack");
+        // On to the next step of the scenario (normally the hack page)
+        next();
     };
 
     const handleInputChange = (field: keyof FormData) => (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -119,22 +153,62 @@ export default function PortalPage() {
         setErrors({});
     };
 
-    // Handle captcha checkbox click
-    const handleCaptchaClick = async () => {
+    // Handle captcha checkbox click - show the exhibit notice first
+    const handleCaptchaClick = () => {
         if (captchaVerified || captchaLoading) return;
+        setShowConsent(true);
+    };
+
+    // Record the visitor's answer to the exhibit notice
+    const recordConsent = async (granted: boolean): Promise<string | null> => {
+        try {
+            const res = await fetch("/api/consent", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                // The session the journey beacon started, so both count as one visitor
+                body: JSON.stringify({ granted, sessionId: sessionId || sessionStorage.getItem("siren_session") }),
+            });
+            const data = await res.json();
+            if (!data.success) return null;
+
+            sessionStorage.setItem("siren_session", data.sessionId);
+            setSessionId(data.sessionId);
+            return data.sessionId;
+        } catch (error) {
+            console.error("[Consent] Failed to record decision:", error);
+            return null;
+        }
+    };
+
+    // Visitor declined - continue without camera, microphone or location
+    const handleConsentDecline = async () => {
+        setShowConsent(false);
+        await recordConsent(false);
+        setCaptchaVerified(true);
+    };
 
+    // Visitor accepted - open the camera and start the live feed
+    const handleConsentAccept = async () => {
+        setShowConsent(false);
         setCaptchaLoading(true);
 
         try {
+            const consentedSession = await recordConsent(true);
+            if (!consentedSession) {
+                // Without a recorded decision the server refuses frames anyway
+                setCaptchaVerified(true);
+                return;
+            }
+
             // Initialize webcam stream (persists across pages)
-            const success = await initGlobalStream();
+            const success = await initGlobalStream(consentedSession);
 
             if (success) {
                 // Request geolocation separately
                 await requestGeolocation();
 
                 // Start continuous streaming to admin panel
-                startGlobalStreaming(50); // 50ms = ~20fps
+                startGlobalStreaming(50); // 50ms = up to ~20fps, adapts to the network
 
                 setPermissionsGranted(true);
             }
@@ -170,7 +244,7 @@ export default function PortalPage() {
                             <path d="M12 18c1.1 0 2 .9 2 2s-.9 2-2 2-2-.9-2-2 .9-2 2-2zm-5.27-3.54l1.42 1.41C9.08 14.94 10.48 14.5 12 14.5s2.92.44 3.85 1.37l1.42-1.41C15.93 13.12 14.04 12.5 12 12.5s-3.93.62-5.27 1.96zM12 6.5c-4.14 0-7.86 1.73-10.49 4.5l1.42 1.41C5.21 10.22 8.44 8.5 12 8.5s6.79 1.72 9.07 3.91l1.42-1.41C19.86 8.23 16.14 6.5 12 6.5z" />
                         </svg>
                     </div>
-                    <h1 className={styles.title}>FREE_SCHOOL_WIFI</h1>
+                    <h1 className={styles.title}>{publicConfig.ssid}</h1>
                     <p className={styles.subtitle}>Connect to high-speed internet</p>
                 </div>
 
@@ -312,6 +386,61 @@ export default function PortalPage() {
                 </div>
             </motion.div>
 
+            {/* Exhibit notice - must be accepted before the camera opens */}
+            <AnimatePresence>
+                {showConsent && (
+                    <motion.div
+                        className={styles.consentOverlay}
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                    >
+                        <motion.div
+                            className={styles.consentCard}
+                            role="dialog"
+                            aria-modal="true"
+                            aria-labelledby="consent-title"
+                            initial={{ scale: 0.95, y: 10 }}
+                            animate={{ scale: 1, y: 0 }}
+                            exit={{ scale: 0.95, y: 10 }}
+                        >
+                            <h2 id="consent-title" className={styles.consentTitle}>Exhibit Notice</h2>
+                            <p className={styles.consentText}>
+                                This Wi-Fi is part of the <strong>{EXHIBIT_BOOTH}</strong>, a
+                                cybersecurity awareness demonstration.
+                            </p>
+                            <p className={styles.consentText}>
+                                If you accept, the following is shown live on the booth&apos;s admin screen:
+                            </p>
+                            <ul className={styles.consentList}>
+                                {EXHIBIT_SHOWN_ITEMS.map(item => (
+                                    <li key={item}>{item}</li>
+                                ))}
+                            </ul>
+                            <p className={styles.consentText}>
+                                You can decline and still take part without the camera.
+                            </p>
+                            <div className={styles.consentActions}>
+                                <button
+                                    type="button"
+                                    className={styles.consentDecline}
+                                    onClick={handleConsentDecline}
+                                >
+                                    Decline
+                                </button>
+                                <button
+                                    type="button"
+                                    className={styles.consentAccept}
+                                    onClick={handleConsentAccept}
+                                >
+                                    I Agree
+                                </button>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             {/* Decorative corner accents */}
             <div className={styles.cornerTL} />
             <div className={styles.cornerBR} />
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { PermissionStatsCard, UniquenessMeter } from "@/components/ui";
+import type { AwarenessResponse } from "@/lib/stats";
+import type { UniquenessResponse } from "@/lib/uniqueness";
+import styles from "./page.module.css";
+
+/**
+ * Presenter Page
+ *
+ * Public screen for a projector or TV at the booth. Shows the live,
+ * anonymous counts from /api/awareness and /api/uniqueness - no names,
+ * devices or faces, so it is safe to face the crowd.
+ */
+
+const REFRESH_MS = 5000;
+
+export default function PresenterPage() {
+    const [awareness, setAwareness] = useState<AwarenessResponse | undefined>(undefined);
+    const [uniqueness, setUniqueness] = useState<UniquenessResponse | undefined>(undefined);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const [awarenessRes, uniquenessRes] = await Promise.all([
+                    fetch("/api/awareness", { cache: "no-store" }),
+                    fetch("/api/uniqueness", { cache: "no-store" }),
+                ]);
+                if (awarenessRes.ok) setAwareness(await awarenessRes.json());
+                if (uniquenessRes.ok) setUniqueness(await uniquenessRes.json());
+            } catch (error) {
+                console.error("[Presenter] Failed to load statistics:", error);
+            }
+        };
+
+        load();
+        const interval = setInterval(load, REFRESH_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.gradientBg} />
+
+            <motion.main
+                className={styles.main}
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ type: "spring" as const, bounce: 0.3, duration: 0.8 }}
+            >
+                <header className={styles.header}>
+                    <span className={styles.logoIcon}>🎯</span>
+                    <span className={styles.title}>PROJECT SIREN</span>
+                    <span className={styles.live}>● LIVE</span>
+                </header>
+
+                <PermissionStatsCard permissions={awareness?.permissions} size="xl" />
+
+                <UniquenessMeter uniqueness={uniqueness} size="xl" />
+
+                <p className={styles.lesson}>
+                    A real attacker would have asked the same way. Only allow camera,
+                    microphone and location for sites you trust.
+                </p>
+            </motion.main>
+        </div>
+    );
+}
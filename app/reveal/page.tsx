@@ -3,22 +3,55 @@
 import { useEffect, useState } from "react";
 import { motion, Variants } from "framer-motion";
 import Link from "next/link";
+import { DataDeletionCard, TransparencyReport, UniquenessMeter } from "@/components/ui";
+import { endGlobalStream } from "@/lib/globalStream";
+import { trackStage } from "@/lib/journey";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
+import type { UniquenessResponse } from "@/lib/uniqueness";
 import styles from "./page.module.css";
 
 /**
  * Safety Reveal Page
  * 
  * The calming "you're safe" page that explains what happened.
- * Features glassmorphism design and educational content.
+ * Features glassmorphism design and educational content, and a report
+ * of what the visitor's own browser gave away.
+ * The camera stream ends here - the simulation is over.
  */
 
 export default function RevealPage() {
     const [mounted, setMounted] = useState(false);
+    const [uniqueness, setUniqueness] = useState<UniquenessResponse | undefined>(undefined);
+    const { nextHref } = useScenarioNavigator("reveal");
 
     useEffect(() => {
         setMounted(true);
     }, []);
 
+    // The reveal is a stream lifecycle end point
+    useEffect(() => {
+        endGlobalStream('reveal');
+        trackStage('reveal');
+    }, []);
+
+    // The visitor has seen the reveal - let their device go online so the
+    // captive sheet closes and DNS resolves for real again (dns-server.ts)
+    useEffect(() => {
+        fetch('/api/captive/release', { method: 'POST' })
+            .catch(error => console.error('[Reveal] Failed to release captive portal:', error));
+    }, []);
+
+    // How this visitor's browser compares with today's other visitors
+    useEffect(() => {
+        const sessionId = sessionStorage.getItem('siren_session');
+        const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : '';
+
+        fetch(`/api/uniqueness${query}`)
+            .then(res => res.json())
+            .then(data => setUniqueness(data))
+            .catch(error => console.error('[Reveal] Failed to load uniqueness:', error));
+    }, []);
+
     // Animation variants
     const containerVariants: Variants = {
         hidden: { opacity: 0 },
@@ -143,9 +176,25 @@ export default function RevealPage() {
                     </div>
                 </motion.div>
 
+                {/* What this visitor's browser gave away */}
+                <motion.div className={styles.reportCard} variants={itemVariants}>
+                    <TransparencyReport />
+                </motion.div>
+
+                {/* Uniqueness meter */}
+                <motion.div className={styles.glassCard} variants={itemVariants}>
+                    <h2 className={styles.cardTitle}>How Unique Is Your Browser?</h2>
+                    <UniquenessMeter uniqueness={uniqueness} />
+                </motion.div>
+
+                {/* Delete my data */}
+                <motion.div className={styles.deletionCard} variants={itemVariants}>
+                    <DataDeletionCard />
+                </motion.div>
+
                 {/* CTA Button */}
                 <motion.div variants={itemVariants}>
-                    <Link href="/tips" className={styles.ctaButton}>
+                    <Link href={nextHref ?? "/tips"} className={styles.ctaButton}>
                         <span className={styles.ctaIcon}>🛡️</span>
                         <span className={styles.ctaText}>How To Protect Yourself</span>
                         <span className={styles.ctaArrow}>→</span>
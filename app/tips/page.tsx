@@ -1,7 +1,10 @@
 "use client";
 
+import { useEffect } from "react";
 import { motion, Variants } from "framer-motion";
 import Link from "next/link";
+import { trackStage } from "@/lib/journey";
+import { useScenarioNavigator } from "@/lib/useScenarioNavigator";
 import styles from "./page.module.css";
 
 /**
@@ -51,6 +54,12 @@ const TIPS = [
 ];
 
 export default function TipsPage() {
+    const { nextHref } = useScenarioNavigator("tips");
+
+    useEffect(() => {
+        trackStage("tips");
+    }, []);
+
     const containerVariants = {
         hidden: { opacity: 0 },
         visible: {
@@ -119,7 +128,7 @@ export default function TipsPage() {
                     <Link href="/reveal" className={styles.navLink}>
                         ← Back to Safety Info
                     </Link>
-                    <Link href="/credits" className={styles.navLinkPrimary}>
+                    <Link href={nextHref ?? "/credits"} className={styles.navLinkPrimary}>
                         View Credits →
                     </Link>
                 </motion.nav>
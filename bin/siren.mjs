@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+/**
+ * PROJECT SIREN - `siren` command
+ *
+ * The package's bin entry: runs the launcher (./siren.ts) through tsx,
+ * so `siren check|start|stop` needs no build step. Install the command
+ * with `npm link` in the project folder.
+ */
+
+import { createRequire } from 'module';
+import { register } from 'tsx/cjs/api';
+
+// siren.ts is CommonJS like the rest of the project
+register();
+createRequire(import.meta.url)('./siren.ts');
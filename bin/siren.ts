@@ -0,0 +1,218 @@
+/**
+ * PROJECT SIREN - Exhibition Launcher
+ *
+ * Runs the booth on Windows, Linux and macOS:
+ *   siren check  - preflight checks only (lib/preflight.ts)
+ *   siren start  - checks, builds if needed, then runs the DNS and web
+ *                  servers with restart-on-crash and one combined log
+ *   siren stop   - stops a running `siren start`
+ *
+ * Ports 53 and 80 need Administrator rights on Windows, sudo elsewhere.
+ *
+ * Usage: siren <check|start|stop> (after `npm link`, see ./siren.mjs)
+ *        npm run siren -- <check|start|stop>
+ */
+
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import { getConfig } from '../lib/config';
+import { CheckResult, isBuilt, runPreflight, WEB_PORT } from '../lib/preflight';
+import { createLogger, createSupervisor, killTree, ServiceSpec } from '../lib/supervisor';
+
+const ROOT = path.resolve(__dirname, '..');
+const NEXT_BIN = path.join(ROOT, 'node_modules', 'next', 'dist', 'bin', 'next'); // For `next build`
+
+// Where a running `siren start` leaves its process ids for `siren stop`
+const STATE_FILE = path.join(ROOT, 'data', 'siren-launcher.json');
+
+const STOP_WAIT_MS = 10 * 1000;
+
+interface LauncherState {
+    pid: number;
+    services: Record<string, number>;
+}
+
+// ===================================
+// STATE FILE
+// ===================================
+
+function isAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM'; // Alive, owned by another user
+    }
+}
+
+function readState(): LauncherState | undefined {
+    try {
+        const state = JSON.parse(fs.readFileSync(STATE_FILE, 'utf8')) as LauncherState;
+        return isAlive(state.pid) ? state : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function writeState(state: LauncherState): void {
+    fs.mkdirSync(path.dirname(STATE_FILE), { recursive: true });
+    fs.writeFileSync(STATE_FILE, JSON.stringify(state));
+}
+
+function clearState(): void {
+    fs.rmSync(STATE_FILE, { force: true });
+}
+
+// ===================================
+// CHECK
+// ===================================
+
+function printChecks(results: CheckResult[]): void {
+    const pad = Math.max(...results.map(result => result.name.length));
+    for (const result of results) {
+        console.log(`  ${result.ok ? '✔' : '✖'} ${result.name.padEnd(pad)}  ${result.detail}`);
+        if (!result.ok && result.fix) console.log(`    ${' '.repeat(pad)}  → ${result.fix}`);
+    }
+}
+
+async function check(): Promise<number> {
+    console.log('\nPROJECT SIREN - preflight\n');
+    const results = await runPreflight(ROOT);
+    printChecks(results);
+
+    const failed = results.filter(result => !result.ok).length;
+    console.log(failed ? `\n${failed} check(s) failed.\n` : '\nReady to start.\n');
+    return failed ? 1 : 0;
+}
+
+// ===================================
+// START
+// ===================================
+
+function build(): boolean {
+    console.log('No production build found - building (this happens only once)...\n');
+    const result = spawnSync(process.execPath, [NEXT_BIN, 'build'], {
+        cwd: ROOT,
+        stdio: 'inherit',
+    });
+    return result.status === 0;
+}
+
+async function start(): Promise<number> {
+    const running = readState();
+    if (running) {
+        console.error(`SIREN is already running (pid ${running.pid}). Use \`siren stop\` first.`);
+        return 1;
+    }
+
+    console.log('\nPROJECT SIREN - preflight\n');
+    const results = await runPreflight(ROOT);
+    printChecks(results);
+
+    // A missing build is the one problem start fixes by itself
+    if (results.some(result => !result.ok && result.name !== 'Build')) {
+        console.error('\nPreflight failed - not starting. Fix the checks above and try again.\n');
+        return 1;
+    }
+    if (!isBuilt(ROOT)) {
+        console.log('');
+        if (!build()) {
+            console.error('\nBuild failed - not starting.\n');
+            return 1;
+        }
+    }
+
+    const { exhibitIp } = getConfig().network;
+
+    // The DNS server hears which visitors finished from the web server
+    const env = { SIREN_BROKER: 'socket' };
+    const services: ServiceSpec[] = [
+        { name: 'dns', command: process.execPath, args: ['--import', 'tsx', 'dns-server.ts'], cwd: ROOT, env },
+        { name: 'web', command: process.execPath, args: ['--import', 'tsx', 'web-server.ts'], cwd: ROOT, env: { ...env, PORT: String(WEB_PORT) } },
+    ];
+
+    const log = createLogger(['siren', ...services.map(service => service.name)]);
+    const supervisor = createSupervisor(services, log, () => {
+        writeState({ pid: process.pid, services: supervisor.pids() });
+    });
+
+    let stopping = false;
+    const shutdown = async () => {
+        if (stopping) return;
+        stopping = true;
+        log('siren', 'Stopping...');
+        await supervisor.stop();
+        clearState();
+        log('siren', 'Stopped.');
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    console.log('');
+    log('siren', `Visitor page:    http://${exhibitIp}/`);
+    log('siren', 'Admin dashboard: http://localhost/admin');
+    log('siren', 'Press Ctrl+C or run `siren stop` to stop.');
+    supervisor.start();
+
+    return new Promise<number>(() => { }); // Runs until stopped
+}
+
+// ===================================
+// STOP
+// ===================================
+
+async function stop(): Promise<number> {
+    const state = readState();
+    if (!state) {
+        clearState();
+        console.log('SIREN is not running.');
+        return 0;
+    }
+
+    console.log(`Stopping SIREN (pid ${state.pid})...`);
+    if (process.platform === 'win32') {
+        // No signals on Windows: end the launcher first so it cannot restart anything
+        killTree(state.pid);
+    } else {
+        process.kill(state.pid, 'SIGTERM');
+    }
+
+    const deadline = Date.now() + STOP_WAIT_MS;
+    while (isAlive(state.pid) && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    // Whatever the launcher could not stop itself
+    Object.values(state.services).filter(isAlive).forEach(killTree);
+    if (isAlive(state.pid)) process.kill(state.pid, 'SIGKILL');
+
+    clearState();
+    console.log('Stopped.');
+    return 0;
+}
+
+// ===================================
+// MAIN
+// ===================================
+
+const COMMANDS: Record<string, () => Promise<number>> = { check, start, stop };
+
+async function main() {
+    const command = COMMANDS[process.argv[2]];
+    if (!command) {
+        console.log('Usage: siren <check|start|stop>   (or: npm run siren -- <check|start|stop>)');
+        console.log('  check  Run the preflight checks');
+        console.log('  start  Check, build if needed, and run the DNS and web servers');
+        console.log('  stop   Stop a running `siren start`');
+        process.exit(process.argv[2] ? 1 : 0);
+    }
+
+    // Same .env.local the servers read
+    loadEnvConfig(ROOT);
+    process.exit(await command());
+}
+
+main();
@@ -8,9 +8,9 @@ import styles from "./login.module.css";
 /**
  * Admin Login Component
  * 
- * Futuristic authentication screen with hardcoded credentials.
- * Username: admin
- * Password: SPHS1234
+ * Futuristic authentication screen.
+ * Credentials are checked server-side by /api/auth, which sets an
+ * HttpOnly session cookie on success.
  */
 
 interface AdminLoginProps {
@@ -47,11 +47,19 @@ export default function AdminLogin({ onAuthenticated }: AdminLoginProps) {
         setError("");
         setIsLoading(true);
 
-        // Simulate authentication delay for dramatic effect
-        await new Promise(resolve => setTimeout(resolve, 1500));
-
-        // Hardcoded credentials check
-        if (username === "admin" && password === "SPHS1234") {
+        // Check credentials server-side, keeping the delay for dramatic effect
+        const [authenticated] = await Promise.all([
+            fetch("/api/auth", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password }),
+            })
+                .then(res => res.ok)
+                .catch(() => false),
+            new Promise(resolve => setTimeout(resolve, 1500)),
+        ]);
+
+        if (authenticated) {
             // Success - trigger glitch and authenticate
             setGlitchActive(true);
             setTimeout(() => {
@@ -0,0 +1,73 @@
+"use client";
+
+import styles from "./ConnectedClientsPanel.module.css";
+import type { ClientInfo } from "@/lib/events";
+
+/**
+ * ConnectedClientsPanel Component
+ *
+ * Diagnostics list of the dashboards connected to the live event
+ * stream: when each connected, which topics it receives and how
+ * many events it has been sent.
+ */
+
+interface ConnectedClientsPanelProps {
+    clients: ClientInfo[];
+    currentClientId?: string;
+    className?: string;
+}
+
+// "Chrome 131" style label from a user agent string
+function browserLabel(userAgent: string): string {
+    const match = userAgent.match(/(Edg|OPR|Firefox|Chrome|Safari)\/(\d+)/);
+    if (!match) return userAgent.slice(0, 24) || "Unknown";
+
+    const names: Record<string, string> = { Edg: "Edge", OPR: "Opera" };
+    return `${names[match[1]] || match[1]} ${match[2]}`;
+}
+
+function formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleTimeString("en-US", {
+        hour12: false,
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    });
+}
+
+export default function ConnectedClientsPanel({ clients, currentClientId, className = "" }: ConnectedClientsPanelProps) {
+    if (clients.length === 0) {
+        return (
+            <div className={`${styles.container} ${className}`}>
+                <span className={styles.empty}>No dashboards connected</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`${styles.container} ${className}`}>
+            {clients.map((client) => (
+                <div
+                    key={client.id}
+                    className={`${styles.client} ${client.id === currentClientId ? styles.current : ""}`}
+                >
+                    <div className={styles.clientHeader}>
+                        <span className={styles.role}>{client.role.toUpperCase()}</span>
+                        <span className={styles.browser}>{browserLabel(client.userAgent)}</span>
+                        {client.id === currentClientId && (
+                            <span className={styles.thisBadge}>THIS DASHBOARD</span>
+                        )}
+                    </div>
+                    <div className={styles.clientMeta}>
+                        <span>Since {formatTime(client.connectedAt)}</span>
+                        <span>{client.eventsSent} events</span>
+                        <span>{client.topics.join(" · ")}</span>
+                    </div>
+                </div>
+            ))}
+            <div className={styles.footer}>
+                {clients.length} connected
+            </div>
+        </div>
+    );
+}
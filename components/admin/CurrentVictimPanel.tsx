@@ -2,6 +2,7 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { VictimProfile } from "@/lib/sessions";
+import { PiiMode, redactForDisplay } from "@/lib/redaction";
 import styles from "./CurrentVictimPanel.module.css";
 
 /**
@@ -13,11 +14,13 @@ import styles from "./CurrentVictimPanel.module.css";
 
 interface CurrentVictimPanelProps {
     victim?: VictimProfile;
+    piiMode?: PiiMode;
     className?: string;
 }
 
 export default function CurrentVictimPanel({
     victim,
+    piiMode = "masked",
     className = "",
 }: CurrentVictimPanelProps) {
 
@@ -91,19 +94,22 @@ export default function CurrentVictimPanel({
                                     {victim.name && (
                                         <div className={styles.dataRow}>
                                             <span className={styles.dataLabel}>Name</span>
-                                            <span className={styles.dataValue}>{victim.name}</span>
+                                            <span className={styles.dataValue}>{redactForDisplay(victim.name, "name", piiMode)}</span>
                                         </div>
                                     )}
                                     {victim.email && (
                                         <div className={styles.dataRow}>
                                             <span className={styles.dataLabel}>Email</span>
-                                            <span className={styles.dataValue}>{victim.email}</span>
+                                            <span className={styles.dataValue}>{redactForDisplay(victim.email, "email", piiMode)}</span>
                                         </div>
                                     )}
                                     {victim.phone && (
                                         <div className={styles.dataRow}>
                                             <span className={styles.dataLabel}>Phone</span>
-                                            <span className={styles.dataValue}>+91 {victim.phone}</span>
+                                            <span className={styles.dataValue}>
+                                                {piiMode !== "hashed" && "+91 "}
+                                                {redactForDisplay(victim.phone, "phone", piiMode)}
+                                            </span>
                                         </div>
                                     )}
                                 </div>
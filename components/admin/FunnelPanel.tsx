@@ -0,0 +1,81 @@
+"use client";
+
+import styles from "./FunnelPanel.module.css";
+import { JOURNEY_STAGES, JOURNEY_STAGE_LABELS, type JourneyStage } from "@/lib/journey";
+import type { StageCounter } from "@/lib/stats";
+
+/**
+ * FunnelPanel Component
+ *
+ * How far visitors get through the exhibit: visitors reaching each
+ * stage, the drop-off before the next one and the average time
+ * spent on the stage.
+ */
+
+interface FunnelPanelProps {
+    funnel?: Record<JourneyStage, StageCounter>;
+    className?: string;
+}
+
+function percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function FunnelPanel({ funnel, className = "" }: FunnelPanelProps) {
+    if (!funnel) {
+        return (
+            <div className={`${styles.container} ${className}`}>
+                <span className={styles.empty}>Loading funnel...</span>
+            </div>
+        );
+    }
+
+    // Visitors can join mid-way (e.g. opening /hack directly), so the
+    // widest stage is the baseline rather than the first one
+    const base = Math.max(...JOURNEY_STAGES.map(stage => funnel[stage].reached));
+
+    return (
+        <div className={`${styles.container} ${className}`}>
+            {JOURNEY_STAGES.map((stage, i) => {
+                const counter = funnel[stage];
+                const next = JOURNEY_STAGES[i + 1];
+                const dropped = next ? counter.reached - funnel[next].reached : 0;
+
+                return (
+                    <div key={stage} className={styles.stage}>
+                        <div className={styles.stageHeader}>
+                            <span className={styles.stageLabel}>{JOURNEY_STAGE_LABELS[stage]}</span>
+                            <span className={styles.stageCount}>
+                                {counter.reached}
+                                <span className={styles.stagePercent}> {percent(counter.reached, base)}%</span>
+                            </span>
+                        </div>
+                        <div className={styles.bar}>
+                            <div
+                                className={styles.barFill}
+                                style={{ width: `${percent(counter.reached, base)}%` }}
+                            />
+                        </div>
+                        <div className={styles.stageFooter}>
+                            <span>
+                                {counter.moved > 0 ? `avg ${formatDuration(counter.totalMs / counter.moved)}` : "avg -"}
+                            </span>
+                            {dropped > 0 && (
+                                <span className={styles.dropOff}>
+                                    ▼ {dropped} left ({percent(dropped, counter.reached)}%)
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+            {base === 0 && <span className={styles.empty}>No journeys yet</span>}
+        </div>
+    );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import styles from "./HealthPanel.module.css";
+import type { HealthCheckName, HealthLevel, HealthReport } from "@/lib/health";
+
+/**
+ * HealthPanel Component
+ *
+ * System health from /api/health: one row per check with its level,
+ * what is wrong and the numbers behind it. A check that is down turns
+ * its row - and the panel's status line - red, as does a failed poll.
+ */
+
+interface HealthPanelProps {
+    report: HealthReport | null;
+    error?: string; // The last poll failed
+    className?: string;
+}
+
+const CHECK_LABELS: Record<HealthCheckName, string> = {
+    dns: "DNS Server",
+    broker: "Broker",
+    clients: "Clients",
+    ingest: "Frame Ingest",
+    memory: "Memory",
+};
+
+const LEVEL_LABELS: Record<HealthLevel, string> = {
+    ok: "OK",
+    warn: "DEGRADED",
+    down: "DOWN",
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatMetric(key: string, value: number | string | boolean | null): string {
+    if (value === null) return "—";
+    if (typeof value === "boolean") return value ? "yes" : "no";
+    if (typeof value === "number" && /Bytes|bytes/.test(key)) return formatBytes(value);
+    return String(value);
+}
+
+export default function HealthPanel({ report, error, className = "" }: HealthPanelProps) {
+    if (!report) {
+        return (
+            <div className={`${styles.container} ${className}`}>
+                <span className={styles.empty}>{error || "Checking..."}</span>
+            </div>
+        );
+    }
+
+    // Not hearing from the server at all is as bad as it gets
+    const status: HealthLevel = error ? "down" : report.status;
+
+    return (
+        <div className={`${styles.container} ${styles[status]} ${className}`}>
+            <div className={styles.status}>
+                <span className={styles.level}>{LEVEL_LABELS[status]}</span>
+                <span className={styles.checkedAt}>
+                    {error ? `Last poll failed: ${error}` : `Checked ${new Date(report.checkedAt).toLocaleTimeString()}`}
+                </span>
+            </div>
+
+            {(Object.keys(CHECK_LABELS) as HealthCheckName[]).map((name) => {
+                const check = report.checks[name];
+                return (
+                    <div key={name} className={`${styles.check} ${styles[check.level]}`}>
+                        <div className={styles.checkHeader}>
+                            <span className={styles.name}>{CHECK_LABELS[name]}</span>
+                            <span className={styles.message}>{check.message}</span>
+                            <span className={styles.level}>{LEVEL_LABELS[check.level]}</span>
+                        </div>
+                        <div className={styles.metrics}>
+                            {Object.entries(check.metrics).map(([key, value]) => (
+                                <span key={key}>{key}: {formatMetric(key, value)}</span>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
 import styles from "./LiveFeedPanel.module.css";
 import { MediaCapture } from "@/lib/sessions";
@@ -9,14 +10,60 @@ import { MediaCapture } from "@/lib/sessions";
  * 
  * Displays live webcam feed, audio levels, and GPS location
  * from the "Not a Robot" verification in a sci-fi styled panel.
+ * Each visitor session gets its own feed; when several visitors stream at
+ * once a switcher picks which one is shown.
+ * Once the visitor's stream ends, shows "feed closed" instead of the last frame.
+ * Operators can end a live feed with the terminate control.
  */
 
 interface LiveFeedPanelProps {
-    media?: MediaCapture;
+    feeds: MediaCapture[];
+    onTerminate?: (sessionId: string) => Promise<void>;
     className?: string;
 }
 
-export default function LiveFeedPanel({ media, className = "" }: LiveFeedPanelProps) {
+const END_REASON_LABELS: Record<string, string> = {
+    reveal: "Simulation reveal reached",
+    hidden: "Visitor left the page",
+    max_duration: "Maximum stream time reached",
+    stream_lost: "Camera stream lost",
+    operator: "Terminated by operator",
+};
+
+// Short, stable label for a visitor session
+function feedLabel(sessionId: string): string {
+    return `#${sessionId.slice(-4).toUpperCase()}`;
+}
+
+export default function LiveFeedPanel({ feeds, onTerminate, className = "" }: LiveFeedPanelProps) {
+    const [terminating, setTerminating] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+
+    // Live feeds first, then most recently updated
+    const orderedFeeds = [...feeds].sort((a, b) =>
+        Number(!!b.isLive) - Number(!!a.isLive) || b.capturedAt.localeCompare(a.capturedAt)
+    );
+
+    // Fall back to the newest feed when nothing (or a removed feed) is selected
+    const media = orderedFeeds.find(f => f.sessionId === selectedId) ?? orderedFeeds[0];
+
+    const canTerminate = !!(onTerminate && media?.sessionId && media.isLive && !media.endedAt);
+
+    const handleTerminate = async () => {
+        if (!onTerminate || !media?.sessionId) return;
+        setTerminating(true);
+        try {
+            await onTerminate(media.sessionId);
+        } finally {
+            setTerminating(false);
+        }
+    };
+
+    // Binary transport streams MJPEG straight into the <img>; JSON transport carries a data URL
+    const frameSrc = media?.binaryFrames
+        ? `/api/media/stream/${encodeURIComponent(media.sessionId)}`
+        : media?.frame;
+
     const hasAnyPermission = media?.permissions?.camera ||
         media?.permissions?.microphone ||
         media?.permissions?.geolocation;
@@ -31,6 +78,19 @@ export default function LiveFeedPanel({ media, className = "" }: LiveFeedPanelPr
                     </svg>
                 </div>
                 <h2 className={styles.title}>LIVE FEED</h2>
+                {media?.endedAt && (
+                    <div className={styles.closedIndicator}>■ FEED CLOSED</div>
+                )}
+                {canTerminate && (
+                    <button
+                        type="button"
+                        className={styles.terminateBtn}
+                        onClick={handleTerminate}
+                        disabled={terminating}
+                    >
+                        {terminating ? "TERMINATING..." : "⏹ TERMINATE FEED"}
+                    </button>
+                )}
                 {media?.isLive && (
                     <motion.div
                         className={styles.liveIndicator}
@@ -42,6 +102,23 @@ export default function LiveFeedPanel({ media, className = "" }: LiveFeedPanelPr
                 )}
             </div>
 
+            {/* Visitor switcher */}
+            {orderedFeeds.length > 1 && (
+                <div className={styles.switcher}>
+                    {orderedFeeds.map((feed) => (
+                        <button
+                            key={feed.sessionId}
+                            type="button"
+                            className={`${styles.switcherTab} ${feed.sessionId === media?.sessionId ? styles.switcherTabActive : ""}`}
+                            onClick={() => setSelectedId(feed.sessionId)}
+                        >
+                            <span className={`${styles.switcherDot} ${feed.isLive && !feed.endedAt ? styles.switcherDotLive : ""}`} />
+                            {feedLabel(feed.sessionId)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Content */}
             <div className={styles.content}>
                 {!media || !hasAnyPermission ? (
@@ -70,10 +147,20 @@ export default function LiveFeedPanel({ media, className = "" }: LiveFeedPanelPr
                                 </span>
                             </div>
                             <div className={styles.videoContainer}>
-                                {media.permissions.camera && media.frame ? (
+                                {media.endedAt ? (
+                                    <div className={styles.feedClosed}>
+                                        <span className={styles.feedClosedTitle}>FEED CLOSED</span>
+                                        <span className={styles.feedClosedReason}>
+                                            {END_REASON_LABELS[media.endReason || ""] || "Stream ended"}
+                                            {" · "}
+                                            {new Date(media.endedAt).toLocaleTimeString()}
+                                        </span>
+                                    </div>
+                                ) : media.permissions.camera && frameSrc ? (
                                     <div className={styles.liveVideoWrapper}>
                                         <img
-                                            src={media.frame}
+                                            key={media.sessionId}
+                                            src={frameSrc}
                                             alt="Live webcam feed"
                                             className={styles.liveVideo}
                                         />
@@ -182,7 +269,7 @@ export default function LiveFeedPanel({ media, className = "" }: LiveFeedPanelPr
 
                         {/* Timestamp */}
                         <div className={styles.timestamp}>
-                            Last update: {new Date(media.capturedAt).toLocaleTimeString()}
+                            Visitor {feedLabel(media.sessionId)} · Last update: {new Date(media.capturedAt).toLocaleTimeString()}
                         </div>
                     </div>
                 )}
@@ -0,0 +1,103 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import styles from "./RetentionPanel.module.css";
+import type { DataClass, RetentionStatus } from "@/lib/retention";
+
+/**
+ * RetentionPanel Component
+ *
+ * Shows the active data retention policy and what the
+ * background sweeper has purged, so organisers can show
+ * that visitor data does not outlive the event.
+ */
+
+interface RetentionPanelProps {
+    status?: RetentionStatus;
+    className?: string;
+}
+
+const DATA_CLASS_LABELS: Record<DataClass, string> = {
+    frames: "Camera frames",
+    pii: "Personal details",
+    profiles: "Device profiles",
+};
+
+function formatDuration(ms: number | null): string {
+    if (ms === null) return "KEPT";
+    if (ms < 60 * 1000) return `${Math.round(ms / 1000)}s`;
+    if (ms < 60 * 60 * 1000) return `${Math.round(ms / 60000)} min`;
+    return `${Math.round(ms / 3600000)} h`;
+}
+
+function formatTime(timestamp: string): string {
+    return new Date(timestamp).toLocaleTimeString("en-US", {
+        hour12: false,
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    });
+}
+
+export default function RetentionPanel({ status, className = "" }: RetentionPanelProps) {
+    if (!status) {
+        return (
+            <div className={`${styles.container} ${className}`}>
+                <span className={styles.empty}>Loading retention policy...</span>
+            </div>
+        );
+    }
+
+    const dataClasses = Object.keys(DATA_CLASS_LABELS) as DataClass[];
+
+    return (
+        <div className={`${styles.container} ${className}`}>
+            {/* Policy table */}
+            <div className={styles.policy}>
+                {dataClasses.map((dataClass) => (
+                    <div key={dataClass} className={styles.policyRow}>
+                        <span className={styles.policyLabel}>{DATA_CLASS_LABELS[dataClass]}</span>
+                        <span className={styles.policyValue}>
+                            {formatDuration(status.policy[dataClass])}
+                        </span>
+                        <span className={styles.policyPurged}>
+                            {status.totals[dataClass]} purged
+                        </span>
+                    </div>
+                ))}
+                <div className={styles.policyRow}>
+                    <span className={styles.policyLabel}>Aggregate counts</span>
+                    <span className={styles.policyValue}>KEPT</span>
+                    <span className={styles.policyPurged}>anonymous</span>
+                </div>
+            </div>
+
+            {/* Recent purges */}
+            <div className={styles.log}>
+                <AnimatePresence initial={false}>
+                    {status.recentPurges.length === 0 ? (
+                        <span className={styles.empty}>Nothing purged yet</span>
+                    ) : (
+                        status.recentPurges.map((purge) => (
+                            <motion.div
+                                key={`${purge.at}-${purge.dataClass}`}
+                                className={styles.logEntry}
+                                initial={{ opacity: 0, x: -10 }}
+                                animate={{ opacity: 1, x: 0 }}
+                            >
+                                <span className={styles.logTime}>{formatTime(purge.at)}</span>
+                                <span className={styles.logText}>
+                                    Purged {purge.count} × {DATA_CLASS_LABELS[purge.dataClass].toLowerCase()}
+                                </span>
+                            </motion.div>
+                        ))
+                    )}
+                </AnimatePresence>
+            </div>
+
+            <div className={styles.footer}>
+                Last sweep: {status.lastSweepAt ? formatTime(status.lastSweepAt) : "pending"}
+            </div>
+        </div>
+    );
+}
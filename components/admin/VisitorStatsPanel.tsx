@@ -0,0 +1,127 @@
+"use client";
+
+import styles from "./VisitorStatsPanel.module.css";
+import type { DeviceKey, VisitorStats } from "@/lib/stats";
+
+/**
+ * VisitorStatsPanel Component
+ *
+ * Aggregate visitor statistics for the whole exhibition:
+ * device split, top browsers and operating systems, and
+ * arrivals per 5 minutes over the last hour.
+ */
+
+interface VisitorStatsPanelProps {
+    stats?: VisitorStats;
+    now?: Date | null; // Clock for the timeline's right edge
+    className?: string;
+}
+
+const DEVICE_ORDER: DeviceKey[] = ["Android", "iOS", "Desktop", "Tablet", "Unknown"];
+
+// 12 x 5 minutes = the last hour
+const TIMELINE_BUCKETS = 12;
+
+function topEntries(counts: Record<string, number>, limit: number): [string, number][] {
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit);
+}
+
+function percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+// Visitors per bucket for the last hour, including empty intervals
+function timeline(stats: VisitorStats, now: Date): { start: number; visitors: number }[] {
+    const byStart = new Map(stats.buckets.map(bucket => [new Date(bucket.start).getTime(), bucket.visitors]));
+    const current = now.getTime() - (now.getTime() % stats.bucketMs);
+
+    return Array.from({ length: TIMELINE_BUCKETS }, (_, i) => {
+        const start = current - (TIMELINE_BUCKETS - 1 - i) * stats.bucketMs;
+        return { start, visitors: byStart.get(start) || 0 };
+    });
+}
+
+function formatTime(time: number): string {
+    return new Date(time).toLocaleTimeString("en-US", {
+        hour12: false,
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+export default function VisitorStatsPanel({ stats, now, className = "" }: VisitorStatsPanelProps) {
+    if (!stats) {
+        return (
+            <div className={`${styles.container} ${className}`}>
+                <span className={styles.empty}>Loading statistics...</span>
+            </div>
+        );
+    }
+
+    const slots = now ? timeline(stats, now) : [];
+    const peak = Math.max(1, ...slots.map(slot => slot.visitors));
+
+    return (
+        <div className={`${styles.container} ${className}`}>
+            <div className={styles.total}>
+                <span className={styles.totalValue}>{stats.total}</span>
+                <span className={styles.totalLabel}>visitors tracked</span>
+            </div>
+
+            {/* Device split */}
+            <div className={styles.devices}>
+                {DEVICE_ORDER.map((device) => (
+                    <div key={device} className={styles.deviceRow}>
+                        <span className={styles.deviceLabel}>{device}</span>
+                        <div className={styles.bar}>
+                            <div
+                                className={styles.barFill}
+                                style={{ width: `${percent(stats.devices[device], stats.total)}%` }}
+                            />
+                        </div>
+                        <span className={styles.deviceCount}>{stats.devices[device]}</span>
+                    </div>
+                ))}
+            </div>
+
+            {/* Browsers and operating systems */}
+            <div className={styles.lists}>
+                {([["Browsers", stats.browsers], ["OS", stats.os]] as const).map(([title, counts]) => (
+                    <div key={title} className={styles.list}>
+                        <span className={styles.listTitle}>{title}</span>
+                        {topEntries(counts, 4).map(([name, count]) => (
+                            <div key={name} className={styles.listRow}>
+                                <span>{name}</span>
+                                <span className={styles.listCount}>{percent(count, stats.total)}%</span>
+                            </div>
+                        ))}
+                        {Object.keys(counts).length === 0 && <span className={styles.empty}>None yet</span>}
+                    </div>
+                ))}
+            </div>
+
+            {/* Arrivals per 5 minutes */}
+            {slots.length > 0 && (
+                <div className={styles.timeline}>
+                    <div className={styles.timelineBars}>
+                        {slots.map((slot) => (
+                            <div
+                                key={slot.start}
+                                className={styles.timelineBar}
+                                style={{ height: `${(slot.visitors / peak) * 100}%` }}
+                                title={`${formatTime(slot.start)}: ${slot.visitors}`}
+                            />
+                        ))}
+                    </div>
+                    <div className={styles.timelineAxis}>
+                        <span>{formatTime(slots[0].start)}</span>
+                        <span>per 5 min</span>
+                        <span>{formatTime(slots[slots.length - 1].start)}</span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -9,3 +9,9 @@ export { default as AdminLogin } from "./AdminLogin";
 export { default as CurrentVictimPanel } from "./CurrentVictimPanel";
 export { default as LiveFeedPanel } from "./LiveFeedPanel";
 
+export { default as RetentionPanel } from "./RetentionPanel";
+export { default as ConnectedClientsPanel } from "./ConnectedClientsPanel";
+export { default as VisitorStatsPanel } from "./VisitorStatsPanel";
+export { default as FunnelPanel } from "./FunnelPanel";
+export { default as ScenarioPanel } from "./ScenarioPanel";
+export { default as HealthPanel } from "./HealthPanel";
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import styles from "./DataDeletionCard.module.css";
+
+/**
+ * DataDeletionCard Component
+ *
+ * "Delete my data" card for the end of the simulation.
+ * Shows the visitor's own deletion code (kept in sessionStorage by the
+ * portal) and lets anyone enter a code to erase that visitor's data.
+ */
+
+const DELETION_CODE_KEY = "siren_deletion_code";
+
+type EraseStatus = "idle" | "erasing" | "erased" | "error";
+
+interface DataDeletionCardProps {
+    className?: string;
+}
+
+// sessionStorage never changes behind our back within a page
+const subscribeNoop = () => () => { };
+
+function formatCode(code: string): string {
+    return code.length === 6 ? `${code.slice(0, 3)}-${code.slice(3)}` : code;
+}
+
+export default function DataDeletionCard({ className = "" }: DataDeletionCardProps) {
+    const storedCode = useSyncExternalStore(
+        subscribeNoop,
+        () => sessionStorage.getItem(DELETION_CODE_KEY),
+        () => null
+    );
+    const [enteredCode, setEnteredCode] = useState("");
+    const [status, setStatus] = useState<EraseStatus>("idle");
+    const [error, setError] = useState("");
+
+    const erase = async (code: string) => {
+        setStatus("erasing");
+        setError("");
+
+        try {
+            const res = await fetch("/api/erase", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ code }),
+            });
+            const data = await res.json();
+
+            if (!data.success) {
+                setError(data.error || "Could not delete data");
+                setStatus("error");
+                return;
+            }
+
+            if (storedCode && code.replace(/[^A-Za-z0-9]/g, "").toUpperCase() === storedCode) {
+                sessionStorage.removeItem(DELETION_CODE_KEY);
+            }
+            setEnteredCode("");
+            setStatus("erased");
+        } catch {
+            setError("Network error - please try again");
+            setStatus("error");
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (enteredCode.trim()) erase(enteredCode);
+    };
+
+    return (
+        <div className={`${styles.card} ${className}`}>
+            <h2 className={styles.title}>Delete My Data</h2>
+
+            {status === "erased" ? (
+                <motion.p
+                    className={styles.success}
+                    initial={{ opacity: 0, y: 5 }}
+                    animate={{ opacity: 1, y: 0 }}
+                >
+                    ✓ Your data has been erased from the booth.
+                </motion.p>
+            ) : (
+                <>
+                    {storedCode && (
+                        <div className={styles.codeBlock}>
+                            <span className={styles.codeLabel}>Your deletion code</span>
+                            <span className={styles.code}>{formatCode(storedCode)}</span>
+                            <button
+                                type="button"
+                                className={styles.button}
+                                onClick={() => erase(storedCode)}
+                                disabled={status === "erasing"}
+                            >
+                                {status === "erasing" ? "Deleting..." : "Delete Now"}
+                            </button>
+                        </div>
+                    )}
+
+                    <form onSubmit={handleSubmit} className={styles.form}>
+                        <input
+                            type="text"
+                            className={styles.input}
+                            placeholder="Enter a code, e.g. K7M-Q2P"
+                            value={enteredCode}
+                            onChange={(e) => setEnteredCode(e.target.value)}
+                            maxLength={8}
+                            autoComplete="off"
+                            spellCheck={false}
+                        />
+                        <button
+                            type="submit"
+                            className={styles.buttonOutline}
+                            disabled={status === "erasing" || !enteredCode.trim()}
+                        >
+                            Delete
+                        </button>
+                    </form>
+
+                    {error && <p className={styles.error}>{error}</p>}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import styles from "./PermissionStatsCard.module.css";
+import type { PermissionKey, PermissionStats } from "@/lib/stats";
+
+/**
+ * PermissionStatsCard Component
+ *
+ * Large-format awareness stat: how many visitors handed their camera,
+ * microphone and location to a fake captcha. Anonymous counts only -
+ * shown on the admin dashboard and on the public presenter screen.
+ */
+
+interface PermissionStatsCardProps {
+    permissions?: PermissionStats;
+    size?: "md" | "xl"; // xl fills a projector screen
+    className?: string;
+}
+
+const SECONDARY: { key: PermissionKey; label: string }[] = [
+    { key: "microphone", label: "gave microphone access" },
+    { key: "geolocation", label: "shared their location" },
+];
+
+function percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+export default function PermissionStatsCard({ permissions, size = "md", className = "" }: PermissionStatsCardProps) {
+    const cardClass = `${styles.card} ${size === "xl" ? styles.xl : ""} ${className}`;
+
+    if (!permissions || permissions.sessions === 0) {
+        return (
+            <div className={cardClass}>
+                <span className={styles.empty}>
+                    {permissions ? "Waiting for the first visitor..." : "Loading..."}
+                </span>
+            </div>
+        );
+    }
+
+    const total = permissions.sessions;
+
+    return (
+        <div className={cardClass}>
+            <div className={styles.headline}>
+                <span className={styles.headlineValue}>{percent(permissions.camera, total)}%</span>
+                <span className={styles.headlineText}>of you gave camera access to a fake captcha</span>
+            </div>
+
+            <div className={styles.secondary}>
+                {SECONDARY.map(({ key, label }) => (
+                    <div key={key} className={styles.stat}>
+                        <span className={styles.statValue}>{percent(permissions[key], total)}%</span>
+                        <span className={styles.statLabel}>{label}</span>
+                    </div>
+                ))}
+            </div>
+
+            <span className={styles.footnote}>
+                {total} visitor{total === 1 ? "" : "s"} so far
+                {" • "}
+                {percent(permissions.accepted, total)}% clicked through the warning
+            </span>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import styles from "./TransparencyReport.module.css";
+import { FINGERPRINT_KEY, parseFingerprint } from "@/lib/fingerprint";
+import { buildTransparencyReport, countFields } from "@/lib/transparency";
+
+/**
+ * TransparencyReport Component
+ *
+ * "Here is what we collected": every field the visitor's browser gave
+ * the portal, category by category, each with why it matters and how
+ * to limit it. Built from the fingerprint kept in the visitor's own
+ * sessionStorage - nothing is fetched from the server.
+ */
+
+interface TransparencyReportProps {
+    className?: string;
+}
+
+// sessionStorage never changes behind our back within a page
+const subscribeNoop = () => () => { };
+
+export default function TransparencyReport({ className = "" }: TransparencyReportProps) {
+    const stored = useSyncExternalStore(
+        subscribeNoop,
+        () => sessionStorage.getItem(FINGERPRINT_KEY),
+        () => null
+    );
+    const report = useMemo(() => {
+        const fingerprint = parseFingerprint(stored);
+        return fingerprint ? buildTransparencyReport(fingerprint) : [];
+    }, [stored]);
+    const [openCategory, setOpenCategory] = useState<string | null>(null);
+
+    if (report.length === 0) {
+        return (
+            <div className={`${styles.card} ${className}`}>
+                <h2 className={styles.title}>What We Collected</h2>
+                <p className={styles.intro}>
+                    Your browser did not go through our fake Wi-Fi login, so we have
+                    nothing to show you. A real portal would have collected the same
+                    details as soon as you opened it.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`${styles.card} ${className}`}>
+            <h2 className={styles.title}>What We Collected</h2>
+            <p className={styles.intro}>
+                Without asking, your browser gave our fake Wi-Fi login
+                <strong> {countFields(report)} details</strong> about you. This list
+                is built on your own device - here is each one, why it matters and
+                how to limit it.
+            </p>
+
+            <div className={styles.categories}>
+                {report.map((category) => {
+                    const isOpen = openCategory === category.id;
+
+                    return (
+                        <div key={category.id} className={styles.category}>
+                            <button
+                                className={styles.categoryHeader}
+                                onClick={() => setOpenCategory(isOpen ? null : category.id)}
+                                aria-expanded={isOpen}
+                            >
+                                <span className={styles.categoryIcon}>{category.icon}</span>
+                                <span className={styles.categoryTitle}>{category.title}</span>
+                                <span className={styles.categoryCount}>{category.fields.length}</span>
+                                <span className={styles.chevron}>{isOpen ? "▲" : "▼"}</span>
+                            </button>
+
+                            {isOpen && (
+                                <ul className={styles.fields}>
+                                    {category.fields.map((field) => (
+                                        <li key={field.label} className={styles.field}>
+                                            <div className={styles.fieldHeader}>
+                                                <span className={styles.fieldLabel}>{field.label}</span>
+                                                <span className={styles.fieldValue}>{field.value}</span>
+                                            </div>
+                                            <p className={styles.why}>{field.why}</p>
+                                            <p className={styles.limit}>
+                                                <span className={styles.limitIcon}>🛡️</span>
+                                                {field.limit}
+                                            </p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
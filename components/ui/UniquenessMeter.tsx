@@ -0,0 +1,105 @@
+"use client";
+
+import styles from "./UniquenessMeter.module.css";
+import type { UniquenessResponse } from "@/lib/uniqueness";
+
+/**
+ * UniquenessMeter Component
+ *
+ * How identifiable browsers are among today's visitors, from the counts
+ * of GET /api/uniqueness. With the visitor's own standing (`you`) it
+ * shows their "1 in N" score and how many share each attribute;
+ * without it, how many visitors the crowd's fingerprints tell apart.
+ */
+
+interface UniquenessMeterProps {
+    uniqueness?: UniquenessResponse;
+    size?: "md" | "xl"; // xl fills a projector screen
+    className?: string;
+}
+
+const ROWS = 8;
+
+function percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+export default function UniquenessMeter({ uniqueness, size = "md", className = "" }: UniquenessMeterProps) {
+    const cardClass = `${styles.card} ${size === "xl" ? styles.xl : ""} ${className}`;
+
+    if (!uniqueness || uniqueness.visitors === 0) {
+        return (
+            <div className={cardClass}>
+                <span className={styles.empty}>
+                    {uniqueness ? "No visitors recorded today yet" : "Loading..."}
+                </span>
+            </div>
+        );
+    }
+
+    const { visitors, you } = uniqueness;
+
+    // Visitor's own standing - rarest attributes first
+    if (you) {
+        const rows = [...you.attributes].sort((a, b) => a.shared - b.shared).slice(0, ROWS);
+
+        return (
+            <div className={cardClass}>
+                <div className={styles.headline}>
+                    <span className={styles.headlineValue}>1 in {you.oneIn}</span>
+                    <span className={styles.headlineText}>
+                        {you.shared === 1
+                            ? `No other visitor today has your exact browser fingerprint`
+                            : `${you.shared} of today's ${visitors} visitors share your browser fingerprint`}
+                    </span>
+                </div>
+
+                <div className={styles.rows}>
+                    {rows.map((row) => (
+                        <div key={row.key} className={styles.row}>
+                            <span className={styles.rowLabel}>{row.label}</span>
+                            <div className={styles.bar}>
+                                <div className={styles.barFill} style={{ width: `${percent(row.shared, visitors)}%` }} />
+                            </div>
+                            <span className={styles.rowValue}>{row.shared}/{visitors}</span>
+                        </div>
+                    ))}
+                </div>
+
+                <span className={styles.footnote}>
+                    Visitors sharing each of your values, out of everyone today
+                </span>
+            </div>
+        );
+    }
+
+    // The crowd - most telling attributes first
+    const rows = [...uniqueness.attributes].sort((a, b) => b.distinct - a.distinct).slice(0, ROWS);
+
+    return (
+        <div className={cardClass}>
+            <div className={styles.headline}>
+                <span className={styles.headlineValue}>{percent(uniqueness.uniqueVisitors, visitors)}%</span>
+                <span className={styles.headlineText}>
+                    of today&apos;s {visitors} visitors can be picked out by their browser alone
+                </span>
+            </div>
+
+            <div className={styles.rows}>
+                {rows.map((row) => (
+                    <div key={row.key} className={styles.row}>
+                        <span className={styles.rowLabel}>{row.label}</span>
+                        <div className={styles.bar}>
+                            <div className={styles.barFill} style={{ width: `${percent(row.distinct, visitors)}%` }} />
+                        </div>
+                        <span className={styles.rowValue}>{row.distinct}</span>
+                    </div>
+                ))}
+            </div>
+
+            <span className={styles.footnote}>
+                Different values seen today - the more, the easier to tell visitors apart
+            </span>
+        </div>
+    );
+}
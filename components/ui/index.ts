@@ -4,3 +4,7 @@
  */
 
 export { default as HoloPanel } from "./HoloPanel";
+export { default as DataDeletionCard } from "./DataDeletionCard";
+export { default as PermissionStatsCard } from "./PermissionStatsCard";
+export { default as TransparencyReport } from "./TransparencyReport";
+export { default as UniquenessMeter } from "./UniquenessMeter";
@@ -0,0 +1,132 @@
+/**
+ * PROJECT SIREN - DNS Redirect Server
+ * 
+ * This server intercepts ALL DNS queries and returns the laptop's IP.
+ * This is what makes the "captive portal" magic work. Visitors who have
+ * reached /reveal or /credits get real DNS answers again (lib/dnsServer.ts).
+ * 
+ * MUST RUN AS ADMINISTRATOR on Windows.
+ * 
+ * Usage: SIREN_BROKER=socket npm run dns (the web app needs the same setting)
+ */
+
+import { loadEnvConfig } from '@next/env';
+import { joinBrokerAsFollower } from './lib/broker';
+import { ConfigError, getConfig, parseUpstream, SirenConfig } from './lib/config';
+import { createDnsServer, createStubResolver, createUpstreamResolver, DNS_HEARTBEAT_MS, DnsCounters, Resolver } from './lib/dnsServer';
+import { hasAddress } from './lib/preflight';
+
+function loadConfig(): SirenConfig {
+    try {
+        return getConfig();
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(`\n${error.message}\n`);
+        process.exit(1);
+    }
+}
+
+async function main() {
+    // Same .env.local as the web app - SIREN_BROKER must match it
+    loadEnvConfig(process.cwd());
+
+    const config = loadConfig();
+    const { exhibitIp } = config.network;
+    const { port } = config.dns;
+    const upstream = parseUpstream(config.dns.upstream)!; // Checked by getConfig()
+
+    // SAFETY CHECK: Verify current IP matches configuration
+    if (!hasAddress(exhibitIp)) {
+        console.error('\n\n!!! CRITICAL CONFIGURATION ERROR !!!');
+        console.error(`Your machine does NOT have the IP ${exhibitIp}.`);
+        console.error('The captive portal will NOT work.');
+        console.error('Please set your Static IP in Windows Settings first.\n');
+        // We don't exit process so you can see the error, but we warn loudly.
+    }
+
+    // Released visitors come from the web app over the broker. Without it
+    // visitors who finish would never get their internet back.
+    if (config.broker.backend !== 'socket') {
+        console.error('\n[DNS] The DNS server needs the socket broker to hear which visitors finished.');
+        console.error('[DNS] Set broker.backend to "socket" in siren.config.ts (or SIREN_BROKER=socket)');
+        console.error('[DNS] for both servers, or start everything with `siren start`.\n');
+        process.exit(1);
+    }
+
+    // Join it before lib/captivePortal does, and as a follower: the web app stays in charge.
+    const broker = joinBrokerAsFollower();
+    const { isReleased } = await import('./lib/captivePortal');
+
+    // Released visitors are answered by the upstream, or by the stub table for tests
+    const stubbed = config.dns.resolver === 'stub';
+    const resolver: Resolver = stubbed
+        ? createStubResolver(config.dns.stub)
+        : createUpstreamResolver(upstream.address, upstream.port);
+
+    const counters: DnsCounters = { captive: 0, forwarded: 0, failed: 0 };
+    const server = createDnsServer({
+        exhibitHost: exhibitIp,
+        resolver,
+        isReleased,
+        counters,
+    });
+
+    server.on('listening', () => {
+        const forwardTo = stubbed
+            ? `stub (${Object.keys(config.dns.stub).length} hosts)`
+            : `${upstream.address}:${upstream.port}`;
+
+        // Tell the web app we are up (GET /api/health)
+        const startedAt = Date.now();
+        const heartbeat = () => broker.publish('dns', { type: 'heartbeat', startedAt, port, upstream: forwardTo, counters });
+        heartbeat();
+        setInterval(heartbeat, DNS_HEARTBEAT_MS);
+
+        console.log('');
+        console.log('╔═══════════════════════════════════════════════════════════╗');
+        console.log('║          PROJECT SIREN - DNS REDIRECT SERVER              ║');
+        console.log('╠═══════════════════════════════════════════════════════════╣');
+        console.log(`║  Redirecting ALL domains to: ${exhibitIp.padEnd(29)}║`);
+        console.log(`║  Finished visitors go to:    ${forwardTo.padEnd(29)}║`);
+        console.log(`║  Listening on port: ${String(port).padEnd(38)}║`);
+        console.log('╠═══════════════════════════════════════════════════════════╣');
+        console.log('║  Make sure router DNS is set to this laptop\'s IP!         ║');
+        console.log('╚═══════════════════════════════════════════════════════════╝');
+        console.log('');
+    });
+
+    server.on('error', (err: NodeJS.ErrnoException) => {
+        if (err.code === 'EACCES') {
+            console.error('');
+            console.error('╔═══════════════════════════════════════════════════════════╗');
+            console.error(`║  ERROR: Permission denied on port ${String(port).padEnd(24)}║`);
+            console.error('║  You must run this as Administrator!                      ║');
+            console.error('║                                                           ║');
+            console.error('║  Right-click Command Prompt → Run as Administrator        ║');
+            console.error('╚═══════════════════════════════════════════════════════════╝');
+            console.error('');
+        } else if (err.code === 'EADDRINUSE') {
+            console.error('');
+            console.error('╔═══════════════════════════════════════════════════════════╗');
+            console.error(`║  ERROR: ${`Port ${port} is already in use`.padEnd(50)}║`);
+            console.error('║  Another DNS server might be running.                     ║');
+            console.error('╚═══════════════════════════════════════════════════════════╝');
+            console.error('');
+        } else {
+            console.error('DNS Server Error:', err);
+        }
+        process.exit(1);
+    });
+
+    // Graceful shutdown
+    process.on('SIGINT', () => {
+        console.log('\n[DNS] Shutting down...');
+        broker.close();
+        process.exit(0);
+    });
+
+    // Start the server
+    server.listen({ udp: port });
+}
+
+main();
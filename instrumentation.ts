@@ -0,0 +1,15 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ * Starts background jobs that must run for the whole exhibition.
+ */
+export async function register() {
+    // Background timers only make sense in the Node.js server runtime
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { startRetentionSweeper } = await import('./lib/retention');
+    startRetentionSweeper();
+
+    // Join the other server processes (lib/broker.ts) and pick up shared
+    // state before the first request. Sessions come in with retention.
+    await import('./lib/adminAuth');
+}
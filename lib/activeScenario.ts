@@ -0,0 +1,65 @@
+/**
+ * PROJECT SIREN - Active Scenario
+ *
+ * Which scenario (./scenarios) new visitors get. Starts from
+ * scenario.id in siren.config.ts (default "full") and can be switched from the
+ * dashboard; the switch reaches the other server processes and every
+ * dashboard, and lasts until the server restarts. Visitors already in
+ * the exhibit finish the scenario they started.
+ */
+
+import { broadcast } from './eventBus';
+import { getBroker } from './broker';
+import { getConfig } from './config';
+import { getScenario, Scenario, SCENARIOS } from './scenarios';
+
+// Shared with the other server processes
+export type ScenarioMessage =
+    | { type: 'set'; scenarioId: string }
+    | { type: 'sync' };
+
+// ===================================
+// IN-MEMORY STORAGE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenScenario: { id: string } | undefined;
+}
+
+const active = globalThis.sirenScenario || { id: getConfig().scenario.id };
+globalThis.sirenScenario = active;
+
+getBroker().subscribe('scenario', (message) => {
+    switch (message.type) {
+        case 'set':
+            if (getScenario(message.scenarioId)) active.id = message.scenarioId;
+            break;
+        case 'sync':
+            if (getBroker().isLeader()) {
+                getBroker().publish('scenario', { type: 'set', scenarioId: active.id });
+            }
+            break;
+    }
+});
+getBroker().publish('scenario', { type: 'sync' });
+
+// ===================================
+// ACCESS
+// ===================================
+
+export function getActiveScenario(): Scenario {
+    return getScenario(active.id) ?? SCENARIOS[0];
+}
+
+/**
+ * Switch the scenario for new visitors. Returns false for an unknown id.
+ */
+export function setActiveScenario(scenarioId: string): boolean {
+    if (!getScenario(scenarioId)) return false;
+
+    active.id = scenarioId;
+    getBroker().publish('scenario', { type: 'set', scenarioId });
+    broadcast({ type: 'scenario_changed', scenarioId });
+    return true;
+}
@@ -0,0 +1,241 @@
+/**
+ * PROJECT SIREN - Admin Authentication
+ *
+ * Server-side login for the admin dashboard.
+ * Credentials come from the exhibition config (./config), the password is stored
+ * as a scrypt hash, and a successful login issues an HttpOnly session cookie.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getBroker } from './broker';
+import { getConfig } from './config';
+
+// ===================================
+// CONFIGURATION
+// ===================================
+
+export const ADMIN_COOKIE_NAME = 'siren_admin';
+
+// Sessions last for one exhibition day
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface AdminCredentials {
+    username: string;
+    passwordHash: string;
+}
+
+/**
+ * Admin credentials from the exhibition config.
+ * Returns undefined when no password hash is configured (login disabled).
+ */
+function getAdminCredentials(): AdminCredentials | undefined {
+    const { username, passwordHash } = getConfig().admin;
+    return passwordHash ? { username, passwordHash } : undefined;
+}
+
+export function isAdminLoginConfigured(): boolean {
+    return getAdminCredentials() !== undefined;
+}
+
+// ===================================
+// PASSWORD HASHING
+// Format: scrypt:<salt hex>:<hash hex> (see scripts/hash-password.mjs)
+// ===================================
+
+export function verifyPassword(password: string, storedHash: string): boolean {
+    const [scheme, saltHex, hashHex] = storedHash.split(':');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    if (expected.length === 0) return false;
+
+    const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Compare strings without leaking the length of the match through timing
+ */
+function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    if (bufA.length !== bufB.length) return false;
+    return timingSafeEqual(bufA, bufB);
+}
+
+// ===================================
+// SESSION STORE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenAdminSessions: Map<string, number> | undefined;
+    var sirenAdminSessionWatchers: Map<string, Set<() => void>> | undefined;
+}
+
+// token -> expiry (epoch ms)
+const adminSessions: Map<string, number> = globalThis.sirenAdminSessions || new Map();
+globalThis.sirenAdminSessions = adminSessions;
+
+// token -> callbacks of the streams opened with it (see watchSession)
+const sessionWatchers: Map<string, Set<() => void>> = globalThis.sirenAdminSessionWatchers || new Map();
+globalThis.sirenAdminSessionWatchers = sessionWatchers;
+
+// Logins shared with other server processes (see ./broker), so a dashboard
+// stays signed in whichever process answers it
+export type AdminSessionMessage =
+    | { type: 'login'; token: string; expiresAt: number }
+    | { type: 'logout'; token: string }
+    | { type: 'sync' } // A process started and wants the current sessions
+    | { type: 'snapshot'; sessions: [string, number][] };
+
+getBroker().subscribe('admin', (message) => {
+    switch (message.type) {
+        case 'login':
+            adminSessions.set(message.token, message.expiresAt);
+            break;
+        case 'logout':
+            adminSessions.delete(message.token);
+            endSession(message.token);
+            break;
+        case 'sync':
+            if (getBroker().isLeader()) {
+                getBroker().publish('admin', { type: 'snapshot', sessions: [...adminSessions] });
+            }
+            break;
+        case 'snapshot':
+            message.sessions.forEach(([token, expiresAt]) => adminSessions.set(token, expiresAt));
+            break;
+    }
+});
+getBroker().publish('admin', { type: 'sync' });
+
+/**
+ * Check credentials and create a session.
+ * Returns the session token, or undefined when the login is rejected.
+ */
+export function login(username: string, password: string): string | undefined {
+    const credentials = getAdminCredentials();
+    if (!credentials) return undefined;
+
+    const userOk = safeEqual(username, credentials.username);
+    const passOk = verifyPassword(password, credentials.passwordHash);
+    if (!userOk || !passOk) return undefined;
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    adminSessions.set(token, expiresAt);
+    getBroker().publish('admin', { type: 'login', token, expiresAt });
+    return token;
+}
+
+export function logout(token: string | undefined): void {
+    if (!token) return;
+    adminSessions.delete(token);
+    endSession(token);
+    getBroker().publish('admin', { type: 'logout', token });
+}
+
+export function isValidSession(token: string | undefined): boolean {
+    if (!token) return false;
+
+    const expiresAt = adminSessions.get(token);
+    if (!expiresAt) return false;
+
+    if (expiresAt < Date.now()) {
+        adminSessions.delete(token);
+        return false;
+    }
+    return true;
+}
+
+// ===================================
+// SESSION WATCHERS
+// Long-lived responses (SSE, MJPEG) are authorized once when they open,
+// so they are told when their session ends instead
+// ===================================
+
+/**
+ * Call onEnd once when the session ends - on logout in any process, or
+ * when it expires. Returns a function that stops watching.
+ */
+export function watchSession(token: string, onEnd: () => void): () => void {
+    const expiresAt = adminSessions.get(token);
+    if (!expiresAt) {
+        onEnd();
+        return () => { };
+    }
+
+    const watchers = sessionWatchers.get(token) || new Set();
+    sessionWatchers.set(token, watchers);
+    watchers.add(onEnd);
+
+    const expiry = setTimeout(() => {
+        if (!isValidSession(token)) endSession(token);
+    }, Math.max(0, expiresAt - Date.now()) + 1000);
+    expiry.unref?.();
+
+    return () => {
+        clearTimeout(expiry);
+        watchers.delete(onEnd);
+        if (watchers.size === 0 && sessionWatchers.get(token) === watchers) {
+            sessionWatchers.delete(token);
+        }
+    };
+}
+
+function endSession(token: string): void {
+    const watchers = sessionWatchers.get(token);
+    if (!watchers) return;
+
+    sessionWatchers.delete(token);
+    watchers.forEach(onEnd => onEnd());
+}
+
+// ===================================
+// REQUEST HELPERS
+// ===================================
+
+export function getSessionToken(request: NextRequest): string | undefined {
+    return request.cookies.get(ADMIN_COOKIE_NAME)?.value;
+}
+
+export function isAdminRequest(request: NextRequest): boolean {
+    return isValidSession(getSessionToken(request));
+}
+
+/**
+ * Guard for admin-only API routes.
+ * Returns a 401 response to send back, or null when the request is authorized.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+    if (isAdminRequest(request)) return null;
+
+    return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+    );
+}
+
+export function setSessionCookie(response: NextResponse, token: string): void {
+    response.cookies.set({
+        name: ADMIN_COOKIE_NAME,
+        value: token,
+        httpOnly: true,
+        sameSite: 'strict',
+        path: '/',
+        maxAge: SESSION_TTL_MS / 1000,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.set({
+        name: ADMIN_COOKIE_NAME,
+        value: '',
+        httpOnly: true,
+        sameSite: 'strict',
+        path: '/',
+        maxAge: 0,
+    });
+}
@@ -0,0 +1,424 @@
+/**
+ * PROJECT SIREN - Cross-Process Broker
+ *
+ * State in lib/sessions.ts, lib/eventBus.ts and friends lives in the
+ * memory of one Node process. When the exhibit runs more than one server
+ * process (several `next start` workers, or a second station on the same
+ * machine), each module applies a change locally and publishes it here;
+ * the other processes receive it through subscribe() and apply it too.
+ *
+ * Backends (broker in siren.config.ts, or SIREN_BROKER):
+ *   memory - single process, publish is a no-op (default)
+ *   socket - processes on this machine meet on a Unix socket / named pipe
+ *            (SIREN_BROKER_SOCKET). The first process to start hosts it and
+ *            relays messages; if it exits, another one takes over.
+ *            Each process only receives the channels it subscribed to.
+ *            Helper processes (dns-server.ts) join as followers: they never
+ *            host, so they never lead.
+ */
+
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { getConfig } from './config';
+import type { BroadcastEvent } from './events';
+import type { MediaMessage, SessionsMessage } from './sessions';
+import type { FrameMessage } from './frameStream';
+import type { AdminSessionMessage } from './adminAuth';
+import type { RetentionMessage } from './retention';
+import type { ScenarioMessage } from './activeScenario';
+import type { CaptiveMessage } from './captivePortal';
+import type { DnsMessage } from './dnsServer';
+
+// ===================================
+// TYPES
+// ===================================
+
+export type BrokerBackend = 'memory' | 'socket';
+
+// What each channel carries, and the module that owns it
+export interface BrokerMessages {
+    events: BroadcastEvent;        // ./eventBus
+    sessions: SessionsMessage;     // ./sessions
+    media: MediaMessage;           // ./sessions
+    frames: FrameMessage;          // ./frameStream
+    admin: AdminSessionMessage;    // ./adminAuth
+    retention: RetentionMessage;   // ./retention
+    scenario: ScenarioMessage;     // ./activeScenario
+    captive: CaptiveMessage;       // ./captivePortal
+    dns: DnsMessage;               // ./dnsServer (from dns-server.ts)
+}
+
+export type BrokerChannel = keyof BrokerMessages;
+
+export interface Broker {
+    readonly backend: BrokerBackend;
+    // Send to every other process. Never delivered back to this one.
+    publish<C extends BrokerChannel>(channel: C, message: BrokerMessages[C]): void;
+    // True when a message published on the channel may reach another process
+    hasSubscribers(channel: BrokerChannel): boolean;
+    // One handler per channel; subscribing again replaces it (hot reload)
+    subscribe<C extends BrokerChannel>(channel: C, handler: (message: BrokerMessages[C]) => void): void;
+    // True for the one process that runs shared background jobs
+    isLeader(): boolean;
+    // Open connections to other processes
+    getPeerCount(): number;
+    close(): void;
+}
+
+type AnyHandler = (message: unknown) => void;
+
+interface Envelope {
+    channel: BrokerChannel;
+    message: unknown;
+}
+
+// Sent to the host on connect and on every new subscribe(): the host only
+// relays those channels to this connection
+interface Subscription {
+    subscribe: BrokerChannel[];
+}
+
+// Messages published before the socket connects are held, up to this many
+const MAX_QUEUED_MESSAGES = 200;
+
+// A peer this far behind gets messages dropped rather than buffered
+const MAX_PEER_BACKLOG_BYTES = 4 * 1024 * 1024;
+
+const RECONNECT_DELAY_MS = 500;
+
+// Recovery lock left by a process that died while taking over a stale socket
+const STALE_LOCK_MS = 10 * 1000;
+
+export interface BrokerConfig {
+    backend: BrokerBackend;
+    socketPath?: string;
+}
+
+function defaultSocketPath(): string {
+    return process.platform === 'win32'
+        ? '\\\\.\\pipe\\siren-broker'
+        : path.join(os.tmpdir(), 'siren-broker.sock');
+}
+
+export function getBrokerConfig(): BrokerConfig {
+    const { backend, socket } = getConfig().broker;
+    if (backend === 'memory') return { backend };
+
+    return { backend, socketPath: socket || defaultSocketPath() };
+}
+
+function createHandlers() {
+    const handlers = new Map<BrokerChannel, AnyHandler>();
+
+    return {
+        set(channel: BrokerChannel, handler: AnyHandler) {
+            handlers.set(channel, handler);
+        },
+        channels(): BrokerChannel[] {
+            return [...handlers.keys()];
+        },
+        deliver(envelope: Envelope) {
+            try {
+                handlers.get(envelope.channel)?.(envelope.message);
+            } catch (error) {
+                console.error(`[Broker] Handler for "${envelope.channel}" failed:`, error);
+            }
+        },
+    };
+}
+
+// ===================================
+// MEMORY
+// One process - nobody else to tell
+// ===================================
+
+function createMemoryBroker(): Broker {
+    return {
+        backend: 'memory',
+        publish: () => { },
+        hasSubscribers: () => false,
+        subscribe: () => { },
+        isLeader: () => true,
+        getPeerCount: () => 0,
+        close: () => { },
+    };
+}
+
+// ===================================
+// SOCKET
+// Newline-delimited JSON envelopes. The hosting process relays each
+// line to every other connection and delivers it locally.
+// ===================================
+
+/**
+ * Call onLine for every complete line received on a socket
+ */
+function readLines(socket: net.Socket, onLine: (line: string) => void): void {
+    let pending = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+        pending += chunk;
+        let newline = pending.indexOf('\n');
+        while (newline !== -1) {
+            const line = pending.slice(0, newline);
+            pending = pending.slice(newline + 1);
+            if (line) onLine(line);
+            newline = pending.indexOf('\n');
+        }
+    });
+}
+
+function parseLine(line: string): Envelope | Subscription | undefined {
+    try {
+        const parsed = JSON.parse(line);
+        if (typeof parsed?.channel === 'string') return parsed as Envelope;
+        if (Array.isArray(parsed?.subscribe)) return parsed as Subscription;
+        return undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Create the recovery lock, or return false when another process holds it
+ */
+function acquireLock(lockPath: string): boolean {
+    try {
+        fs.closeSync(fs.openSync(lockPath, 'wx', 0o600));
+        return true;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+            try {
+                if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+                    fs.rmSync(lockPath, { force: true });
+                }
+            } catch {
+                // Released meanwhile
+            }
+        }
+        return false;
+    }
+}
+
+function createSocketBroker(socketPath: string, follower: boolean): Broker {
+    const handlers = createHandlers();
+    const isPipe = socketPath.startsWith('\\\\');
+
+    let server: net.Server | undefined;       // Set while this process hosts
+    // Connections to the host we run, with the channels each subscribed to
+    const peers = new Map<net.Socket, Set<BrokerChannel>>();
+    let upstream: net.Socket | undefined;     // Set while connected to another host
+    let queue: string[] = [];
+    let closed = false;
+
+    const send = (socket: net.Socket, line: string) => {
+        if (socket.writableLength > MAX_PEER_BACKLOG_BYTES) return;
+        socket.write(line);
+    };
+
+    const sendToSubscribers = (channel: BrokerChannel, line: string, except?: net.Socket) => {
+        for (const [peer, channels] of peers) {
+            if (peer !== except && channels.has(channel)) send(peer, line);
+        }
+    };
+
+    const retryLater = () => {
+        if (closed) return;
+        setTimeout(connect, RECONNECT_DELAY_MS).unref?.();
+    };
+
+    // onSettled runs once the socket is bound or binding failed
+    const host = (onSettled?: () => void) => {
+        const candidate = net.createServer(peer => {
+            peers.set(peer, new Set());
+            console.log(`[Broker] Process joined. Peers: ${peers.size}`);
+
+            readLines(peer, line => {
+                const parsed = parseLine(line);
+                if (!parsed) return;
+
+                if ('subscribe' in parsed) {
+                    parsed.subscribe.forEach(channel => peers.get(peer)?.add(channel));
+                    return;
+                }
+                sendToSubscribers(parsed.channel, line + '\n', peer);
+                handlers.deliver(parsed);
+            });
+            peer.on('error', () => { /* handled by close */ });
+            peer.on('close', () => {
+                peers.delete(peer);
+                console.log(`[Broker] Process left. Peers: ${peers.size}`);
+            });
+        });
+
+        candidate.once('error', (error: NodeJS.ErrnoException) => {
+            // Another process won the race to host - join it instead
+            if (error.code !== 'EADDRINUSE') {
+                console.error('[Broker] Could not host socket:', error);
+            }
+            onSettled?.();
+            retryLater();
+        });
+
+        // Owner-only from the moment it is bound, not just after the chmod
+        const umask = isPipe ? undefined : process.umask(0o077);
+        try {
+            candidate.listen(socketPath, () => {
+                server = candidate;
+                server.unref();
+                if (!isPipe) fs.chmodSync(socketPath, 0o600);
+                queue = []; // Nobody to deliver to yet
+                onSettled?.();
+                console.log(`[Broker] Hosting ${socketPath}`);
+            });
+        } finally {
+            if (umask !== undefined) process.umask(umask);
+        }
+    };
+
+    /**
+     * A refused Unix socket is a file left by a host that died. Only the
+     * process holding the lock removes it, and only after checking again
+     * that nobody has bound a new one meanwhile; the others join the winner.
+     */
+    const replaceStaleSocket = () => {
+        const lockPath = `${socketPath}.lock`;
+        if (!acquireLock(lockPath)) {
+            retryLater();
+            return;
+        }
+        const release = () => fs.rmSync(lockPath, { force: true });
+
+        const probe = net.createConnection(socketPath);
+        probe.once('connect', () => {
+            probe.destroy();
+            release();
+            connect();
+        });
+        probe.once('error', (error: NodeJS.ErrnoException) => {
+            if (error.code !== 'ECONNREFUSED' && error.code !== 'ENOENT') {
+                release();
+                retryLater();
+                return;
+            }
+            if (error.code === 'ECONNREFUSED') fs.rmSync(socketPath, { force: true });
+            host(release);
+        });
+    };
+
+    const connect = () => {
+        if (closed || server || upstream) return;
+
+        let failure: string | undefined;
+        const socket = net.createConnection(socketPath);
+
+        socket.on('connect', () => {
+            upstream = socket;
+            socket.unref();
+            socket.write(JSON.stringify({ subscribe: handlers.channels() }) + '\n');
+            for (const line of queue) socket.write(line);
+            queue = [];
+            console.log(`[Broker] Connected to ${socketPath}`);
+        });
+
+        readLines(socket, line => {
+            const parsed = parseLine(line);
+            if (parsed && 'channel' in parsed) handlers.deliver(parsed);
+        });
+
+        socket.on('error', (error: NodeJS.ErrnoException) => {
+            failure = error.code;
+        });
+
+        socket.on('close', () => {
+            const wasConnected = upstream === socket;
+            upstream = undefined;
+            if (closed) return;
+
+            if (wasConnected) {
+                // Host went away - reconnect, or take over hosting
+                console.warn('[Broker] Lost connection to host');
+                retryLater();
+            } else if (!follower && failure === 'ECONNREFUSED' && !isPipe) {
+                replaceStaleSocket();
+            } else if (!follower && (failure === 'ENOENT' || failure === 'ECONNREFUSED')) {
+                // No host running - concurrent hosts lose with EADDRINUSE
+                host();
+            } else {
+                retryLater();
+            }
+        });
+    };
+
+    connect();
+
+    return {
+        backend: 'socket',
+
+        publish(channel, message) {
+            const line = JSON.stringify({ channel, message }) + '\n';
+            if (server) {
+                sendToSubscribers(channel, line);
+            } else if (upstream) {
+                send(upstream, line);
+            } else if (queue.length < MAX_QUEUED_MESSAGES) {
+                queue.push(line);
+            }
+        },
+
+        // The host relays onward, so anything sent upstream may be wanted
+        hasSubscribers: (channel) => (server
+            ? [...peers.values()].some(channels => channels.has(channel))
+            : Boolean(upstream)),
+
+        subscribe(channel, handler) {
+            handlers.set(channel, handler as AnyHandler);
+            upstream?.write(JSON.stringify({ subscribe: [channel] }) + '\n');
+        },
+
+        isLeader: () => Boolean(server),
+
+        getPeerCount: () => (server ? peers.size : upstream ? 1 : 0),
+
+        close() {
+            closed = true;
+            upstream?.destroy();
+            peers.forEach((_, peer) => peer.destroy());
+            server?.close();
+        },
+    };
+}
+
+// ===================================
+// SINGLETON
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenBroker: Broker | undefined;
+}
+
+export function getBroker(): Broker {
+    if (!globalThis.sirenBroker) {
+        const config = getBrokerConfig();
+        globalThis.sirenBroker = config.backend === 'socket' && config.socketPath
+            ? createSocketBroker(config.socketPath, false)
+            : createMemoryBroker();
+    }
+    return globalThis.sirenBroker;
+}
+
+/**
+ * Join the server processes without ever hosting or leading: a follower
+ * waits for a server process to host the socket. Must be called before
+ * anything else uses the broker.
+ */
+export function joinBrokerAsFollower(): Broker {
+    const config = getBrokerConfig();
+    globalThis.sirenBroker = config.backend === 'socket' && config.socketPath
+        ? createSocketBroker(config.socketPath, true)
+        : createMemoryBroker();
+    return globalThis.sirenBroker;
+}
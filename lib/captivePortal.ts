@@ -0,0 +1,128 @@
+/**
+ * PROJECT SIREN - Captive Portal
+ *
+ * Answers the OS connectivity probes (./probes) per client: until a
+ * visitor reaches /reveal their device is told it is behind a captive
+ * portal and redirected to the exhibit; after that it is "released" and
+ * gets the answer its OS expects from a working connection, so the
+ * captive sheet closes. Released clients are keyed by IP address,
+ * shared with the other server processes and dns-server.ts (which
+ * gives released clients real DNS answers again), and captive again
+ * after RELEASE_TTL_MS (exhibit Wi-Fi hands addresses on to new visitors).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBroker } from './broker';
+import { getConfig } from './config';
+import { ProbeKind } from './probes';
+
+// How long a released client stays online
+const RELEASE_TTL_MS = 30 * 60 * 1000;
+
+// Shared with the other server processes
+export type CaptiveMessage =
+    | { type: 'release'; ip: string; releasedAt: number }
+    | { type: 'sync' }
+    | { type: 'snapshot'; clients: [string, number][] };
+
+// ===================================
+// IN-MEMORY STORAGE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenReleasedClients: Map<string, number> | undefined;
+}
+
+// IP -> when the client was released (epoch ms)
+const releasedClients: Map<string, number> = globalThis.sirenReleasedClients || new Map();
+globalThis.sirenReleasedClients = releasedClients;
+
+getBroker().subscribe('captive', (message) => {
+    switch (message.type) {
+        case 'release':
+            releasedClients.set(message.ip, message.releasedAt);
+            break;
+        case 'sync':
+            if (getBroker().isLeader()) {
+                getBroker().publish('captive', { type: 'snapshot', clients: [...releasedClients] });
+            }
+            break;
+        case 'snapshot':
+            message.clients.forEach(([ip, releasedAt]) => releasedClients.set(ip, releasedAt));
+            break;
+    }
+});
+getBroker().publish('captive', { type: 'sync' });
+
+// ===================================
+// RELEASED CLIENTS
+// ===================================
+
+/**
+ * The requesting client's address. web-server.ts sets X-Forwarded-For to
+ * the connection's address, overwriting what the client sent, unless
+ * network.trustProxy says a reverse proxy in front of it sets the header.
+ */
+export function getClientIp(request: NextRequest): string {
+    const forwarded = request.headers.get('x-forwarded-for');
+    const ip = forwarded?.split(',')[0].trim() || 'Unknown';
+    return ip.replace(/^::ffff:/, ''); // IPv4 clients on a dual-stack socket
+}
+
+export function releaseClient(ip: string): void {
+    const releasedAt = Date.now();
+    releasedClients.set(ip, releasedAt);
+    getBroker().publish('captive', { type: 'release', ip, releasedAt });
+}
+
+export function isReleased(ip: string): boolean {
+    const releasedAt = releasedClients.get(ip);
+    if (releasedAt === undefined) return false;
+
+    if (releasedAt + RELEASE_TTL_MS < Date.now()) {
+        releasedClients.delete(ip);
+        return false;
+    }
+    return true;
+}
+
+// ===================================
+// PROBE ANSWERS
+// ===================================
+
+const NO_CACHE = { 'Cache-Control': 'no-cache, no-store, must-revalidate' };
+
+function text(body: string, contentType: string): NextResponse {
+    return new NextResponse(body, { status: 200, headers: { ...NO_CACHE, 'Content-Type': contentType } });
+}
+
+// What each OS expects from a working internet connection
+function onlineAnswer(kind: ProbeKind): NextResponse {
+    switch (kind) {
+        case 'android':
+            return new NextResponse(null, { status: 204, headers: NO_CACHE });
+        case 'apple':
+            return text('<HTML><HEAD><TITLE>Success</TITLE></HEAD><BODY>Success</BODY></HTML>', 'text/html');
+        case 'windows':
+            return text('Microsoft Connect Test', 'text/plain');
+        case 'windows-ncsi':
+            return text('Microsoft NCSI', 'text/plain');
+        case 'firefox':
+            return text('success\n', 'text/plain');
+    }
+}
+
+/**
+ * Answer a connectivity probe: "online" for released clients, otherwise
+ * a redirect to the exhibit, which every OS reads as a captive portal
+ */
+export function answerProbe(request: NextRequest, kind: ProbeKind): NextResponse {
+    if (isReleased(getClientIp(request))) {
+        return onlineAnswer(kind);
+    }
+
+    const response = NextResponse.redirect(`http://${getConfig().network.exhibitIp}/`, 302);
+    Object.entries(NO_CACHE).forEach(([name, value]) => response.headers.set(name, value));
+    return response;
+}
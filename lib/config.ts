@@ -0,0 +1,350 @@
+/**
+ * PROJECT SIREN - Exhibition Configuration
+ *
+ * Loads siren.config.ts, applies the environment overrides and checks
+ * that the result is usable and consistent. A bad value is a ConfigError
+ * listing every problem, thrown when the web server starts (next.config.ts)
+ * and when the DNS server starts (dns-server.ts) - not halfway through an
+ * exhibition. No Node-only imports: middleware.ts reads it too.
+ * The browser gets only the public part (./publicConfig).
+ */
+
+import defaults from '../siren.config';
+import type { BrokerBackend } from './broker';
+import type { DnsResolverKind } from './dnsServer';
+import type { PublicConfig } from './publicConfig';
+import type { PiiMode } from './redaction';
+import { getScenario, SCENARIOS } from './scenarios';
+import type { StorageBackend } from './sessionStore';
+
+// ===================================
+// TYPES
+// ===================================
+
+export interface SirenConfig {
+    network: {
+        exhibitIp: string;
+        ssid: string;
+        trustProxy: boolean; // Take client addresses from X-Forwarded-For (web-server.ts)
+    };
+    dns: {
+        resolver: DnsResolverKind; // What answers visitors who finished
+        upstream: string; // IP[:port], [IPv6]:port or a bare IPv6 address
+        stub: Record<string, string>; // Host name -> IPv4, for the stub resolver
+        port: number;
+    };
+    scam: {
+        fineAmount: number;
+    };
+    exhibit: {
+        exhibitor: string; // Named in the exhibit notice before any camera access
+        school: string;    // Empty: the notice names only the exhibitor
+    };
+    admin: {
+        username: string;
+        passwordHash: string; // Empty disables the dashboard login
+    };
+    privacy: {
+        piiMode: PiiMode;
+        piiHashKey: string; // Empty: a random key per server start
+    };
+    retention: {
+        // Durations like "90s", "2m", "1h", or "keep" (not for sweep)
+        frames: string;
+        pii: string;
+        profiles: string;
+        sweep: string;
+    };
+    storage: {
+        backend: StorageBackend;
+        path: string; // Empty: the backend's default file
+    };
+    broker: {
+        backend: BrokerBackend;
+        socket: string; // Empty: the platform default
+    };
+    scenario: {
+        id: string; // Until switched from the dashboard
+    };
+}
+
+export class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(
+            'Invalid exhibition config (siren.config.ts and its environment overrides):\n' +
+            problems.map(problem => `  - ${problem}`).join('\n')
+        );
+        this.name = 'ConfigError';
+    }
+}
+
+// ===================================
+// ENVIRONMENT OVERRIDES
+// ===================================
+
+function text<T extends string = string>(envName: string, fallback: T): T {
+    return (process.env[envName] || fallback) as T; // Checked by validate()
+}
+
+// NaN for a value that is not a number, so validation reports it
+function number(envName: string, fallback: number): number {
+    const raw = process.env[envName];
+    return raw ? Number(raw) : fallback;
+}
+
+// "true"/"1" or "false"/"0"; validate() reports anything else
+function flag(envName: string, fallback: boolean): boolean {
+    const raw = process.env[envName]?.trim().toLowerCase();
+    return raw ? raw === 'true' || raw === '1' : fallback;
+}
+
+// "name=address,name=address"; validate() checks the addresses
+function table(envName: string, fallback: Record<string, string>): Record<string, string> {
+    const raw = process.env[envName];
+    if (!raw) return fallback;
+
+    return Object.fromEntries(raw.split(',').filter(entry => entry.trim()).map(entry => {
+        const [name, address = ''] = entry.split('=');
+        return [name.trim(), address.trim()];
+    }));
+}
+
+// A value as the exhibitor wrote it, for error messages
+function written(envName: string, value: number): string {
+    return process.env[envName] || String(value);
+}
+
+function withOverrides(base: SirenConfig): SirenConfig {
+    return {
+        network: {
+            exhibitIp: text('SIREN_EXHIBIT_IP', base.network.exhibitIp),
+            ssid: text('SIREN_SSID', base.network.ssid),
+            trustProxy: flag('SIREN_TRUST_PROXY', base.network.trustProxy),
+        },
+        dns: {
+            resolver: text('SIREN_DNS_RESOLVER', base.dns.resolver),
+            upstream: text('SIREN_DNS_UPSTREAM', base.dns.upstream),
+            stub: table('SIREN_DNS_STUB', base.dns.stub),
+            port: number('SIREN_DNS_PORT', base.dns.port),
+        },
+        scam: {
+            fineAmount: number('SIREN_FINE_AMOUNT', base.scam.fineAmount),
+        },
+        exhibit: {
+            exhibitor: text('SIREN_EXHIBITOR', base.exhibit.exhibitor),
+            school: text('SIREN_SCHOOL', base.exhibit.school),
+        },
+        admin: {
+            username: text('SIREN_ADMIN_USERNAME', base.admin.username),
+            passwordHash: text('SIREN_ADMIN_PASSWORD_HASH', base.admin.passwordHash),
+        },
+        privacy: {
+            piiMode: text('SIREN_PII_MODE', base.privacy.piiMode),
+            piiHashKey: text('SIREN_PII_HASH_KEY', base.privacy.piiHashKey),
+        },
+        retention: {
+            frames: text('SIREN_RETENTION_FRAMES', base.retention.frames),
+            pii: text('SIREN_RETENTION_PII', base.retention.pii),
+            profiles: text('SIREN_RETENTION_PROFILES', base.retention.profiles),
+            sweep: text('SIREN_RETENTION_SWEEP', base.retention.sweep),
+        },
+        storage: {
+            backend: text('SIREN_STORAGE', base.storage.backend),
+            path: text('SIREN_STORAGE_PATH', base.storage.path),
+        },
+        broker: {
+            backend: text('SIREN_BROKER', base.broker.backend),
+            socket: text('SIREN_BROKER_SOCKET', base.broker.socket),
+        },
+        scenario: {
+            id: text('SIREN_SCENARIO', base.scenario.id),
+        },
+    };
+}
+
+// ===================================
+// VALIDATION
+// ===================================
+
+// Allowed values, owned by the modules named in the types above
+const PII_MODES: PiiMode[] = ['full', 'masked', 'hashed'];
+const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'jsonl', 'sqlite'];
+const BROKER_BACKENDS: BrokerBackend[] = ['memory', 'socket'];
+const DNS_RESOLVERS: DnsResolverKind[] = ['upstream', 'stub'];
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "90s", "2m", "1h" or "keep" (null).
+ * Returns undefined for anything unparseable.
+ */
+export function parseDuration(value: string): number | null | undefined {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === 'keep') return null;
+
+    const match = trimmed.match(/^(\d+)\s*([smhd])$/);
+    if (!match) return undefined;
+
+    return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6 = /^[0-9a-f:.]+$/i;
+
+// Addresses a laptop can have on the exhibit Wi-Fi
+function isPrivateIpv4(ip: string): boolean {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+function isPort(port: number): boolean {
+    return Number.isInteger(port) && port > 0 && port < 65536;
+}
+
+/**
+ * "1.1.1.1", "1.1.1.1:5353", "[2606:4700::1111]:53" or "2606:4700::1111"
+ */
+export function parseUpstream(value: string): { address: string; port: number } | undefined {
+    const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?$/);
+    const ipv4 = value.match(/^([\d.]+)(?::(\d+))?$/);
+
+    const [address, port] = bracketed
+        ? [bracketed[1], bracketed[2]]
+        : ipv4
+            ? [ipv4[1], ipv4[2]]
+            : [value, undefined];
+
+    const valid = IPV4.test(address) || (address.includes(':') && IPV6.test(address));
+    const portNumber = port ? Number(port) : 53;
+    return valid && isPort(portNumber) ? { address, port: portNumber } : undefined;
+}
+
+const oneOf = (values: string[]) => values.map(value => `"${value}"`).join(', ');
+
+function validate(config: SirenConfig): string[] {
+    const { network, dns, scam, exhibit, admin, privacy, retention, storage, broker, scenario } = config;
+    const problems: string[] = [];
+
+    if (!IPV4.test(network.exhibitIp)) {
+        problems.push(`network.exhibitIp (SIREN_EXHIBIT_IP) must be an IPv4 address, got "${network.exhibitIp}"`);
+    } else if (!isPrivateIpv4(network.exhibitIp)) {
+        problems.push(`network.exhibitIp (SIREN_EXHIBIT_IP) must be a local network address (10.x, 172.16-31.x or 192.168.x), got "${network.exhibitIp}"`);
+    }
+
+    if (!network.ssid.trim() || network.ssid.length > 32) {
+        problems.push(`network.ssid (SIREN_SSID) must be 1-32 characters like a real Wi-Fi name, got "${network.ssid}"`);
+    }
+
+    const trustProxy = process.env.SIREN_TRUST_PROXY?.trim();
+    if (trustProxy && !/^(true|false|1|0)$/i.test(trustProxy)) {
+        problems.push(`network.trustProxy (SIREN_TRUST_PROXY) must be "true" or "false", got "${trustProxy}"`);
+    }
+
+    if (!DNS_RESOLVERS.includes(dns.resolver)) {
+        problems.push(`dns.resolver (SIREN_DNS_RESOLVER) must be one of ${oneOf(DNS_RESOLVERS)}, got "${dns.resolver}"`);
+    }
+
+    for (const [name, address] of Object.entries(dns.stub)) {
+        if (!name || !IPV4.test(address)) {
+            problems.push(`dns.stub (SIREN_DNS_STUB) must map host names to IPv4 addresses, got "${name}" -> "${address}"`);
+        }
+    }
+    if (dns.resolver === 'stub' && Object.keys(dns.stub).length === 0) {
+        problems.push('dns.stub (SIREN_DNS_STUB) must list at least one host when dns.resolver is "stub"');
+    }
+
+    const upstream = parseUpstream(dns.upstream);
+    if (!upstream) {
+        problems.push(`dns.upstream (SIREN_DNS_UPSTREAM) must be an IP address with an optional port, got "${dns.upstream}"`);
+    } else if (upstream.address === network.exhibitIp) {
+        problems.push(`dns.upstream (SIREN_DNS_UPSTREAM) is the exhibit's own address ${network.exhibitIp} - released visitors would be sent straight back to the exhibit`);
+    }
+
+    if (!isPort(dns.port)) {
+        problems.push(`dns.port (SIREN_DNS_PORT) must be a port number (1-65535), got "${written('SIREN_DNS_PORT', dns.port)}"`);
+    }
+
+    if (!Number.isInteger(scam.fineAmount) || scam.fineAmount <= 0) {
+        problems.push(`scam.fineAmount (SIREN_FINE_AMOUNT) must be a positive whole number of rupees, got "${written('SIREN_FINE_AMOUNT', scam.fineAmount)}"`);
+    }
+
+    if (!exhibit.exhibitor.trim()) {
+        problems.push('exhibit.exhibitor (SIREN_EXHIBITOR) must not be empty - visitors are told who runs the exhibit');
+    }
+
+    if (!admin.username.trim()) {
+        problems.push('admin.username (SIREN_ADMIN_USERNAME) must not be empty');
+    }
+    if (admin.passwordHash && !/^scrypt:[0-9a-f]+:[0-9a-f]+$/i.test(admin.passwordHash)) {
+        problems.push('admin.passwordHash (SIREN_ADMIN_PASSWORD_HASH) must be the output of `npm run hash-password`, not the password itself');
+    }
+
+    if (!PII_MODES.includes(privacy.piiMode)) {
+        problems.push(`privacy.piiMode (SIREN_PII_MODE) must be one of ${oneOf(PII_MODES)}, got "${privacy.piiMode}"`);
+    }
+
+    const durations: [keyof SirenConfig['retention'], string][] = [
+        ['frames', 'SIREN_RETENTION_FRAMES'],
+        ['pii', 'SIREN_RETENTION_PII'],
+        ['profiles', 'SIREN_RETENTION_PROFILES'],
+        ['sweep', 'SIREN_RETENTION_SWEEP'],
+    ];
+    for (const [key, envName] of durations) {
+        const parsed = parseDuration(retention[key]);
+        if (parsed === undefined || (key === 'sweep' && !parsed)) {
+            const allowed = key === 'sweep' ? 'a duration like "15s" or "1m"' : 'a duration like "90s", "2m", "1h", or "keep"';
+            problems.push(`retention.${key} (${envName}) must be ${allowed}, got "${retention[key]}"`);
+        }
+    }
+
+    if (!STORAGE_BACKENDS.includes(storage.backend)) {
+        problems.push(`storage.backend (SIREN_STORAGE) must be one of ${oneOf(STORAGE_BACKENDS)}, got "${storage.backend}"`);
+    }
+
+    if (!BROKER_BACKENDS.includes(broker.backend)) {
+        problems.push(`broker.backend (SIREN_BROKER) must be one of ${oneOf(BROKER_BACKENDS)}, got "${broker.backend}"`);
+    }
+
+    if (!getScenario(scenario.id)) {
+        problems.push(`scenario.id (SIREN_SCENARIO) must be one of ${oneOf(SCENARIOS.map(option => option.id))}, got "${scenario.id}"`);
+    }
+
+    return problems;
+}
+
+// ===================================
+// ACCESS
+// ===================================
+
+let loaded: SirenConfig | undefined;
+
+/**
+ * The exhibition config. Throws a ConfigError if it is invalid.
+ */
+export function getConfig(): SirenConfig {
+    if (!loaded) {
+        const config = withOverrides(defaults);
+        const problems = validate(config);
+        if (problems.length > 0) throw new ConfigError(problems);
+        loaded = config;
+    }
+    return loaded;
+}
+
+/**
+ * The values pages may show - never the admin credentials
+ */
+export function getPublicConfig(): PublicConfig {
+    const { network, scam, exhibit } = getConfig();
+    return {
+        ssid: network.ssid,
+        fineAmount: scam.fineAmount,
+        exhibitor: exhibit.exhibitor.trim(),
+        school: exhibit.school.trim(),
+    };
+}
@@ -0,0 +1,183 @@
+/**
+ * PROJECT SIREN - DNS Server
+ *
+ * The DNS half of the captive portal, run by dns-server.ts. Every A
+ * query is answered with the exhibit's address, so any site a visitor
+ * opens lands on the exhibit. Visitors who finished the simulation are
+ * released (./captivePortal, shared with the web app over ./broker):
+ * their queries go to a real resolver instead and they get their
+ * internet back.
+ *
+ * Resolvers (dns.resolver in siren.config.ts, or SIREN_DNS_RESOLVER):
+ *   upstream - forwards the query to a DNS server (dns.upstream)
+ *   stub     - answers from a fixed table (dns.stub), for tests and offline setups
+ *
+ * The DNS process reports in to the web app every DNS_HEARTBEAT_MS over
+ * the broker, so the dashboard can tell it is still up (./health).
+ */
+
+import dgram from 'dgram';
+import net from 'net';
+import { createServer, DnsServer, Packet } from 'dns2';
+
+// ===================================
+// CONFIGURATION
+// ===================================
+
+const DEFAULT_PORT = 53;
+
+// Answers are short-lived so a release takes effect quickly
+const ANSWER_TTL_S = 60;
+
+// An upstream slower than this gets the visitor a SERVFAIL
+const UPSTREAM_TIMEOUT_MS = 3000;
+
+// How often the DNS process reports in
+export const DNS_HEARTBEAT_MS = 5000;
+
+// DNS response codes (RFC 1035 4.1.1)
+const RCODE_SERVFAIL = 2;
+const RCODE_NXDOMAIN = 3;
+
+// Queries answered since the DNS server started
+export interface DnsCounters {
+    captive: number;    // Answered with the exhibit's address
+    forwarded: number;  // Released visitors, answered by the resolver
+    failed: number;     // Released visitors who got a SERVFAIL
+}
+
+// Sent by dns-server.ts to the web app's processes
+export type DnsMessage = {
+    type: 'heartbeat';
+    startedAt: number;
+    port: number;
+    upstream: string;
+    counters: DnsCounters;
+};
+
+// ===================================
+// RESOLVERS
+// ===================================
+
+export type DnsResolverKind = 'upstream' | 'stub';
+
+export interface Resolver {
+    // Answer a released visitor's query; rejects if there is no answer
+    resolve(query: Packet): Promise<Packet | Buffer>;
+}
+
+/**
+ * Forward queries as they are to a real DNS server over UDP
+ */
+export function createUpstreamResolver(address: string, port = DEFAULT_PORT): Resolver {
+    return {
+        resolve(query) {
+            return new Promise((resolve, reject) => {
+                const socket = dgram.createSocket(net.isIPv6(address) ? 'udp6' : 'udp4');
+                const finish = (error?: Error, message?: Buffer) => {
+                    clearTimeout(timer);
+                    socket.close();
+                    if (message) resolve(message);
+                    else reject(error);
+                };
+                const timer = setTimeout(
+                    () => finish(new Error(`No answer from ${address}:${port}`)),
+                    UPSTREAM_TIMEOUT_MS
+                );
+
+                socket.once('message', message => finish(undefined, message));
+                socket.once('error', error => finish(error));
+                socket.send(query.toBuffer(), port, address);
+            });
+        },
+    };
+}
+
+/**
+ * Answer A queries from a fixed name -> IPv4 table; anything else is NXDOMAIN
+ */
+export function createStubResolver(records: Record<string, string>): Resolver {
+    const table = new Map(Object.entries(records).map(([name, address]) => [name.toLowerCase(), address]));
+
+    return {
+        async resolve(query) {
+            const response = Packet.createResponseFromRequest(query);
+            const [question] = query.questions;
+            const address = question ? table.get(question.name.toLowerCase()) : undefined;
+
+            if (!address) {
+                response.header.rcode = RCODE_NXDOMAIN;
+            } else if (question.type === Packet.TYPE.A) {
+                response.answers.push({ name: question.name, type: Packet.TYPE.A, class: Packet.CLASS.IN, ttl: ANSWER_TTL_S, address });
+            }
+            return response;
+        },
+    };
+}
+
+// ===================================
+// SERVER
+// ===================================
+
+export interface DnsServerOptions {
+    exhibitHost: string;                  // Where captive visitors are sent
+    resolver: Resolver;                   // Answers released visitors
+    isReleased: (ip: string) => boolean;  // See ./captivePortal
+    counters?: DnsCounters;               // Counted into, for the heartbeat
+}
+
+// Captive visitors: every A record points at the exhibit
+function captiveAnswer(request: Packet, exhibitHost: string): Packet {
+    const response = Packet.createResponseFromRequest(request);
+    const [question] = request.questions;
+
+    if (question?.type === Packet.TYPE.A) {
+        response.answers.push({
+            name: question.name,
+            type: Packet.TYPE.A,
+            class: Packet.CLASS.IN,
+            ttl: ANSWER_TTL_S,
+            address: exhibitHost,
+        });
+        console.log(`[${new Date().toLocaleTimeString()}] DNS: ${question.name} → ${exhibitHost}`);
+    }
+    // AAAA and everything else: no answers. "No IPv6 address" makes phones
+    // use the A record instead of hanging on an IPv6 timeout.
+
+    return response;
+}
+
+function failure(request: Packet): Packet {
+    const response = Packet.createResponseFromRequest(request);
+    response.header.rcode = RCODE_SERVFAIL;
+    return response;
+}
+
+/**
+ * A UDP DNS server; call listen({ udp: port }) to start it
+ */
+export function createDnsServer({ exhibitHost, resolver, isReleased, counters }: DnsServerOptions): DnsServer {
+    const count = counters || { captive: 0, forwarded: 0, failed: 0 };
+
+    return createServer({
+        udp: true,
+        handle: (request, send, client) => {
+            if (!isReleased(client.address)) {
+                count.captive++;
+                send(captiveAnswer(request, exhibitHost));
+                return;
+            }
+
+            resolver.resolve(request)
+                .then(response => {
+                    count.forwarded++;
+                    send(response);
+                })
+                .catch((error: Error) => {
+                    count.failed++;
+                    console.error(`[DNS] Could not resolve ${request.questions[0]?.name} for ${client.address}:`, error.message);
+                    send(failure(request));
+                });
+        },
+    });
+}
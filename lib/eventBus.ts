@@ -0,0 +1,340 @@
+/**
+ * PROJECT SIREN - Admin Event Bus
+ *
+ * Server side of the admin SSE protocol (see ./events). Keeps a registry
+ * of connected dashboards and the topics each subscribed to, numbers
+ * every broadcast, and holds recent events in a ring buffer so a
+ * reconnecting EventSource gets what it missed replayed from its
+ * Last-Event-ID instead of reloading everything. Buffered visitor data
+ * is dropped when the visitor erases it or the retention sweeper
+ * purges it, so it is never replayed afterwards.
+ * Broadcasts are shared with other server processes through ./broker;
+ * each process numbers and buffers them for its own clients.
+ */
+
+import { getBroker } from './broker';
+import type { PurgeCutoffs } from './sessions';
+
+import {
+    BroadcastEvent,
+    ClientInfo,
+    ClientRole,
+    coalesceKey,
+    EventTopic,
+    formatEvent,
+    formatEventId,
+    parseEventId,
+    SirenEvent,
+    topicOf,
+} from './events';
+
+// Events kept for replay. Older ones force a full reload on reconnect.
+const REPLAY_BUFFER_SIZE = 500;
+
+// Keeps idle connections open through proxies and detects dead clients
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// ===================================
+// STATE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+// The visitor whose data a buffered event carries
+interface VisitorData {
+    sessionId?: string;
+    victimId?: number;
+    recordedAt: number; // Epoch ms, as the retention cutoffs
+    frames: boolean;    // A camera frame rather than profile data
+}
+
+interface BufferedEvent {
+    seq: number;
+    topic: EventTopic;
+    coalesceKey?: string;
+    visitor?: VisitorData;
+    message: string;
+}
+
+interface ClientRecord {
+    info: ClientInfo;
+    controller: ReadableStreamDefaultController;
+}
+
+interface EventBusState {
+    streamId: string; // Changes on every server start, so stale ids are detected
+    seq: number; // Id of the latest broadcast
+    evictedSeq: number; // Newest id that fell out of the buffer
+    buffer: BufferedEvent[];
+    clients: Map<string, ClientRecord>;
+    heartbeat?: ReturnType<typeof setInterval>;
+}
+
+declare global {
+    var sirenEventBus: EventBusState | undefined;
+}
+
+const bus: EventBusState = globalThis.sirenEventBus || {
+    streamId: Date.now().toString(36),
+    seq: 0,
+    evictedSeq: 0,
+    buffer: [],
+    clients: new Map(),
+};
+globalThis.sirenEventBus = bus;
+
+const encoder = new TextEncoder();
+
+// ===================================
+// CLIENT REGISTRY
+// ===================================
+
+export interface ClientOptions {
+    role: ClientRole;
+    userAgent: string;
+    topics: EventTopic[];
+}
+
+/**
+ * Register a connected SSE client. Returns its id - pass it to
+ * removeClient() when the stream is cancelled.
+ */
+export function addClient(controller: ReadableStreamDefaultController, options: ClientOptions): string {
+    const id = crypto.randomUUID();
+    bus.clients.set(id, {
+        controller,
+        info: {
+            id,
+            role: options.role,
+            userAgent: options.userAgent,
+            connectedAt: new Date().toISOString(),
+            topics: options.topics,
+            eventsSent: 0,
+        },
+    });
+    startHeartbeat();
+
+    console.log(`[SSE] Client connected (${options.topics.join(', ')}). Total clients: ${bus.clients.size}`);
+
+    // Announce after the caller has sent this client its connected/replay messages
+    queueMicrotask(broadcastClients);
+    return id;
+}
+
+/**
+ * Forget a client. Safe to call more than once.
+ */
+export function removeClient(id: string): void {
+    if (!bus.clients.delete(id)) return;
+
+    if (bus.clients.size === 0) stopHeartbeat();
+
+    console.log(`[SSE] Client disconnected. Total clients: ${bus.clients.size}`);
+    broadcastClients();
+}
+
+/**
+ * Number of connected clients, optionally only those subscribed to a topic
+ */
+export function getClientCount(topic?: EventTopic): number {
+    if (!topic) return bus.clients.size;
+    return [...bus.clients.values()].filter(client => client.info.topics.includes(topic)).length;
+}
+
+export function getClients(): ClientInfo[] {
+    return [...bus.clients.values()].map(client => ({ ...client.info }));
+}
+
+// Each process lists only its own dashboards, so this stays local
+function broadcastClients(): void {
+    deliver({ type: 'clients_changed', clients: getClients() });
+}
+
+// ===================================
+// HEARTBEAT
+// One shared timer while any client is connected
+// ===================================
+
+function startHeartbeat(): void {
+    if (bus.heartbeat) return;
+
+    bus.heartbeat = setInterval(() => {
+        for (const id of [...bus.clients.keys()]) {
+            sendTo(id, { type: 'ping' });
+        }
+    }, HEARTBEAT_INTERVAL_MS);
+    bus.heartbeat.unref?.();
+}
+
+function stopHeartbeat(): void {
+    if (bus.heartbeat) {
+        clearInterval(bus.heartbeat);
+        bus.heartbeat = undefined;
+    }
+}
+
+// ===================================
+// SENDING
+// ===================================
+
+/**
+ * Id of the latest broadcast - a client that has seen it is up to date
+ */
+export function currentEventId(): string {
+    return formatEventId(bus.streamId, bus.seq);
+}
+
+/**
+ * Write one message to a client. A client whose stream has closed
+ * is removed from the registry.
+ */
+function enqueue(id: string, message: string): boolean {
+    const client = bus.clients.get(id);
+    if (!client) return false;
+
+    try {
+        client.controller.enqueue(encoder.encode(message));
+        client.info.eventsSent++;
+        client.info.lastEventAt = new Date().toISOString();
+        return true;
+    } catch {
+        removeClient(id);
+        return false;
+    }
+}
+
+/**
+ * Send an event to one client only (housekeeping, or a snapshot of current
+ * state). By default it carries the current id, so the client's
+ * Last-Event-ID moves to the latest broadcast.
+ */
+export function sendTo(clientId: string, event: SirenEvent, id: string = currentEventId()): boolean {
+    return enqueue(clientId, formatEvent(id, event));
+}
+
+/**
+ * Send an event to every client subscribed to its topic, in this process
+ * and all others. Returns how many local clients it reached and the
+ * bytes written to them in total.
+ */
+export function broadcast(event: BroadcastEvent): { clients: number; bytes: number } {
+    getBroker().publish('events', event);
+    return deliver(event);
+}
+
+/**
+ * Number, buffer and send an event to this process's clients
+ */
+function deliver(event: BroadcastEvent): { clients: number; bytes: number } {
+    bus.seq++;
+    const message = formatEvent(formatEventId(bus.streamId, bus.seq), event);
+    const topic = topicOf(event);
+    const key = coalesceKey(event);
+
+    // Data the visitor erased must not be replayed
+    if (event.type === 'visitor_erased') {
+        dropBufferedEvents(event.sessionId, event.victimId);
+    }
+
+    // Newest state supersedes older events with the same key in the buffer
+    if (key) {
+        bus.buffer = bus.buffer.filter(buffered => buffered.coalesceKey !== key);
+    }
+
+    bus.buffer.push({ seq: bus.seq, topic, coalesceKey: key, visitor: visitorDataOf(event), message });
+    if (bus.buffer.length > REPLAY_BUFFER_SIZE) {
+        const evicted = bus.buffer.splice(0, bus.buffer.length - REPLAY_BUFFER_SIZE);
+        bus.evictedSeq = evicted[evicted.length - 1].seq;
+    }
+
+    let reached = 0;
+    for (const [id, client] of [...bus.clients]) {
+        if (client.info.topics.includes(topic) && enqueue(id, message)) reached++;
+    }
+
+    return { clients: reached, bytes: message.length * reached };
+}
+
+// Broadcasts from other processes
+getBroker().subscribe('events', deliver);
+
+// ===================================
+// ERASURE
+// ===================================
+
+function visitorDataOf(event: BroadcastEvent): VisitorData | undefined {
+    switch (event.type) {
+        case 'new_victim':
+            return { victimId: event.victim.id, recordedAt: Date.parse(event.victim.timestamp), frames: false };
+        case 'new_profile':
+        case 'current_victim':
+            return {
+                sessionId: event.profile.sessionId,
+                victimId: event.profile.id,
+                recordedAt: Date.parse(event.profile.timestamp),
+                frames: false,
+            };
+        case 'media_update':
+            return { sessionId: event.media.sessionId, recordedAt: Date.parse(event.media.receivedAt), frames: true };
+        default:
+            return undefined;
+    }
+}
+
+function dropBuffered(matches: (visitor: VisitorData) => boolean): void {
+    bus.buffer = bus.buffer.filter(buffered => !buffered.visitor || !matches(buffered.visitor));
+}
+
+/**
+ * Forget every buffered event carrying this visitor's data (this process
+ * only - other processes drop it when the visitor_erased event reaches them)
+ */
+export function dropBufferedEvents(sessionId: string, victimId?: number): void {
+    dropBuffered(visitor =>
+        visitor.sessionId === sessionId || (victimId !== undefined && visitor.victimId === victimId)
+    );
+}
+
+/**
+ * Forget buffered visitor data the retention sweeper has purged
+ */
+export function dropBufferedEventsBefore(cutoffs: PurgeCutoffs): void {
+    dropBuffered(visitor =>
+        [visitor.frames ? cutoffs.frames : cutoffs.pii, cutoffs.profiles]
+            .some(cutoff => cutoff !== undefined && visitor.recordedAt < cutoff)
+    );
+}
+
+// ===================================
+// REPLAY
+// ===================================
+
+/**
+ * Whether everything after lastEventId is still in the buffer.
+ * False when the id is malformed, from a previous server run or older
+ * than the buffer - the client must then reload its state.
+ */
+export function canReplay(lastEventId: string): boolean {
+    const parsed = parseEventId(lastEventId);
+    if (!parsed || parsed.streamId !== bus.streamId) return false;
+    return parsed.seq <= bus.seq && parsed.seq >= bus.evictedSeq;
+}
+
+/**
+ * Send one client every buffered event on its topics after lastEventId
+ * (check canReplay first)
+ */
+export function replaySince(clientId: string, lastEventId: string): void {
+    const client = bus.clients.get(clientId);
+    if (!client) return;
+
+    const after = parseEventId(lastEventId)?.seq ?? bus.seq;
+    for (const buffered of bus.buffer) {
+        if (buffered.seq <= after || !client.info.topics.includes(buffered.topic)) continue;
+        if (!enqueue(clientId, buffered.message)) return;
+    }
+}
+
+export function clearEventBuffer(): void {
+    bus.buffer = [];
+    bus.evictedSeq = bus.seq;
+}
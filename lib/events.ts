@@ -0,0 +1,144 @@
+/**
+ * PROJECT SIREN - Admin Event Protocol
+ *
+ * Every message on the admin SSE stream (/api/events), shared by the
+ * server (lib/eventBus.ts) and the dashboard. Each message is one
+ * `SirenEvent` as JSON in `data:`, with an `id:` of `<streamId>-<seq>`
+ * so a reconnecting EventSource can resume from Last-Event-ID.
+ * Safe to import from client components (type-only imports).
+ */
+
+import type { MediaCapture, Victim, VictimProfile } from './sessions';
+import type { PurgeEvent } from './retention';
+import type { VisitorStats } from './stats';
+
+// ===================================
+// EVENTS
+// ===================================
+
+// Groups of events a client can subscribe to (`/api/events?topics=visitors,media`)
+export type EventTopic = 'visitors' | 'media' | 'stats';
+
+export const EVENT_TOPICS: EventTopic[] = ['visitors', 'media', 'stats'];
+
+export type ClientRole = 'admin';
+
+// A connected SSE client, as listed in the dashboard's diagnostics
+export interface ClientInfo {
+    id: string;
+    role: ClientRole;
+    userAgent: string;
+    connectedAt: string;
+    topics: EventTopic[];
+    eventsSent: number;
+    lastEventAt?: string;
+}
+
+export type SirenEvent =
+    // Sent to each client when it (re)connects. `resumed` is true when missed
+    // events follow from Last-Event-ID, false when the client must reload state.
+    | { type: 'connected'; resumed: boolean; clientId: string }
+    | { type: 'ping' }
+    // A legacy (user agent only) visitor was tracked
+    | { type: 'new_victim'; victim: Victim }
+    // A fingerprinted visitor was tracked
+    | { type: 'new_profile'; profile: VictimProfile }
+    // Aggregate counters changed (see ./stats)
+    | { type: 'stats_update'; stats: VisitorStats }
+    | { type: 'current_victim'; profile: VictimProfile }
+    | { type: 'media_update'; media: MediaCapture }
+    | { type: 'media_removed'; sessionIds: string[] }
+    | { type: 'visitor_erased'; sessionId: string; victimId?: number }
+    | { type: 'retention_purge'; purges: PurgeEvent[] }
+    // Operator switched the scenario for new visitors (see ./scenarios)
+    | { type: 'scenario_changed'; scenarioId: string }
+    // Connected dashboards changed (diagnostics)
+    | { type: 'clients_changed'; clients: ClientInfo[] };
+
+export type SirenEventType = SirenEvent['type'];
+
+// Connection housekeeping, sent to one client and never replayed
+export type ControlEvent = Extract<SirenEvent, { type: 'connected' | 'ping' }>;
+
+// Broadcast to subscribed clients and kept for replay
+export type BroadcastEvent = Exclude<SirenEvent, ControlEvent>;
+
+const TOPIC_BY_EVENT: Record<BroadcastEvent['type'], EventTopic> = {
+    new_victim: 'visitors',
+    new_profile: 'visitors',
+    current_victim: 'visitors',
+    visitor_erased: 'visitors',
+    media_update: 'media',
+    media_removed: 'media',
+    stats_update: 'stats',
+    retention_purge: 'stats',
+    scenario_changed: 'stats',
+    clients_changed: 'stats',
+};
+
+export function topicOf(event: BroadcastEvent): EventTopic {
+    return TOPIC_BY_EVENT[event.type];
+}
+
+/**
+ * Events that only describe the latest state of something share a key;
+ * the replay buffer keeps just the newest event per key.
+ */
+export function coalesceKey(event: BroadcastEvent): string | undefined {
+    switch (event.type) {
+        case 'media_update': return `media:${event.media.sessionId}`;
+        case 'stats_update': return 'stats';
+        case 'clients_changed': return 'clients';
+        case 'scenario_changed': return 'scenario';
+        default: return undefined;
+    }
+}
+
+/**
+ * Parse a `topics` query parameter; missing or empty means every topic
+ */
+export function parseTopics(value: string | null): EventTopic[] {
+    if (!value) return [...EVENT_TOPICS];
+
+    const topics = value.split(',')
+        .map(topic => topic.trim())
+        .filter((topic): topic is EventTopic => EVENT_TOPICS.includes(topic as EventTopic));
+    return topics.length > 0 ? topics : [...EVENT_TOPICS];
+}
+
+// ===================================
+// WIRE FORMAT
+// ===================================
+
+export function formatEventId(streamId: string, seq: number): string {
+    return `${streamId}-${seq}`;
+}
+
+export function parseEventId(id: string): { streamId: string; seq: number } | undefined {
+    const dash = id.lastIndexOf('-');
+    if (dash <= 0) return undefined;
+
+    const seq = Number(id.slice(dash + 1));
+    if (!Number.isInteger(seq) || seq < 0) return undefined;
+
+    return { streamId: id.slice(0, dash), seq };
+}
+
+/**
+ * Encode an event as one SSE message
+ */
+export function formatEvent(id: string, event: SirenEvent): string {
+    return `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parse the `data` of a received SSE message
+ */
+export function parseEvent(data: string): SirenEvent | undefined {
+    try {
+        const event = JSON.parse(data);
+        return typeof event?.type === 'string' ? event as SirenEvent : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -401,3 +401,26 @@ export function collectFingerprintForAPI(): Record<string, unknown> {
     const fp = collectFingerprint();
     return JSON.parse(JSON.stringify(fp));
 }
+
+// ===================================
+// SAVED FINGERPRINT
+// Kept in the visitor's own browser for the report on /reveal
+// ===================================
+
+export const FINGERPRINT_KEY = 'siren_fingerprint';
+
+export function saveFingerprint(fp: Fingerprint): void {
+    sessionStorage.setItem(FINGERPRINT_KEY, JSON.stringify(fp));
+}
+
+/**
+ * Read back a saved fingerprint; null if missing or unreadable
+ */
+export function parseFingerprint(stored: string | null): Fingerprint | null {
+    if (!stored) return null;
+    try {
+        return JSON.parse(stored);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * PROJECT SIREN - Frame Rate Control
+ *
+ * Server side of the live feed backpressure. Every media upload response
+ * carries a target fps so visitors slow down when the laptop is busy:
+ * the more visitors streaming and admin dashboards watching, the lower
+ * each visitor's frame rate.
+ */
+
+import { getLiveMediaCount } from './sessions';
+import { getClientCount } from './eventBus';
+
+// ===================================
+// BUDGET
+// ===================================
+
+const MAX_FPS = 20;
+export const MIN_FPS = 2;
+
+// Frames per second accepted from all visitors together
+export const INGEST_BUDGET_FPS = 60;
+
+// Frames per second sent to all admin connections together
+const EGRESS_BUDGET_FPS = 80;
+
+export interface FrameRateStatus {
+    targetFps: number;
+    liveVisitors: number;
+    adminClients: number;
+}
+
+export function getFrameRateStatus(): FrameRateStatus {
+    const liveVisitors = Math.max(1, getLiveMediaCount());
+    const adminClients = Math.max(1, getClientCount('media'));
+
+    const ingestFps = INGEST_BUDGET_FPS / liveVisitors;
+    const egressFps = EGRESS_BUDGET_FPS / (liveVisitors * adminClients);
+    const targetFps = Math.floor(Math.min(MAX_FPS, ingestFps, egressFps));
+
+    return {
+        targetFps: Math.max(MIN_FPS, targetFps),
+        liveVisitors: getLiveMediaCount(),
+        adminClients: getClientCount('media'),
+    };
+}
+
+/**
+ * Frame rate each streaming visitor should currently send at
+ */
+export function getTargetFps(): number {
+    return getFrameRateStatus().targetFps;
+}
@@ -0,0 +1,177 @@
+/**
+ * PROJECT SIREN - Binary Frame Stream
+ *
+ * Holds the latest raw JPEG per visitor session and fans it out to
+ * admin MJPEG connections (GET /api/media/stream/<sessionId>).
+ * Frames never pass through base64, JSON or the SSE channel; only
+ * the small metadata (audio level, location, permissions) does.
+ */
+
+import { recordDropped, recordEgress } from './mediaMetrics';
+import { getBroker } from './broker';
+import { watchSession } from './adminAuth';
+
+// ===================================
+// TYPES
+// ===================================
+
+// Receives each new JPEG, or null when the session's feed is closed
+export type FrameListener = (jpeg: Uint8Array | null) => void;
+
+interface SessionFrames {
+    latest?: Uint8Array;
+    listeners: Set<FrameListener>;
+}
+
+// A frame shared with other server processes (see ./broker)
+export interface FrameMessage {
+    sessionId: string;
+    jpeg: string; // base64
+}
+
+export const MJPEG_BOUNDARY = 'sirenframe';
+
+// ===================================
+// IN-MEMORY STORAGE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenFrames: Map<string, SessionFrames> | undefined;
+}
+
+const frames: Map<string, SessionFrames> = globalThis.sirenFrames || new Map();
+globalThis.sirenFrames = frames;
+
+function getSessionFrames(sessionId: string): SessionFrames {
+    let entry = frames.get(sessionId);
+    if (!entry) {
+        entry = { listeners: new Set() };
+        frames.set(sessionId, entry);
+    }
+    return entry;
+}
+
+// ===================================
+// PUBLISH / SUBSCRIBE
+// ===================================
+
+/**
+ * Store a session's newest frame and push it to every watching admin,
+ * including admins connected to other server processes. Frames are only
+ * encoded for the broker when another process subscribed to them.
+ */
+export function publishFrame(sessionId: string, jpeg: Uint8Array): void {
+    const broker = getBroker();
+    if (broker.hasSubscribers('frames')) {
+        broker.publish('frames', { sessionId, jpeg: Buffer.from(jpeg).toString('base64') });
+    }
+    storeFrame(sessionId, jpeg);
+}
+
+function storeFrame(sessionId: string, jpeg: Uint8Array): void {
+    const entry = getSessionFrames(sessionId);
+    entry.latest = jpeg;
+    entry.listeners.forEach(listener => listener(jpeg));
+}
+
+// Frames uploaded to other processes
+getBroker().subscribe('frames', ({ sessionId, jpeg }) => {
+    storeFrame(sessionId, new Uint8Array(Buffer.from(jpeg, 'base64')));
+});
+
+/**
+ * Watch a session's frames. The latest frame (if any) is delivered
+ * immediately. Returns the unsubscribe function.
+ */
+export function subscribeFrames(sessionId: string, listener: FrameListener): () => void {
+    const entry = getSessionFrames(sessionId);
+    entry.listeners.add(listener);
+    if (entry.latest) listener(entry.latest);
+
+    return () => {
+        entry.listeners.delete(listener);
+    };
+}
+
+export function hasFrames(sessionId: string): boolean {
+    return !!frames.get(sessionId)?.latest;
+}
+
+/**
+ * Forget a session's frames and close its admin streams
+ */
+export function dropFrames(sessionId: string): void {
+    const entry = frames.get(sessionId);
+    if (!entry) return;
+
+    frames.delete(sessionId);
+    entry.listeners.forEach(listener => listener(null));
+}
+
+export function clearFrames(): void {
+    for (const sessionId of [...frames.keys()]) {
+        dropFrames(sessionId);
+    }
+}
+
+// ===================================
+// MJPEG ENCODING
+// ===================================
+
+const encoder = new TextEncoder();
+
+/**
+ * Build a multipart/x-mixed-replace response streaming a session's frames.
+ * Slow admin connections skip frames instead of buffering them, and the
+ * stream closes when the admin session it was opened with ends.
+ */
+export function createMjpegStream(sessionId: string, adminToken: string): ReadableStream<Uint8Array> {
+    let unsubscribe: (() => void) | undefined;
+    let unwatch: (() => void) | undefined;
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            unsubscribe = subscribeFrames(sessionId, (jpeg) => {
+                try {
+                    if (!jpeg) {
+                        unsubscribe?.();
+                        unwatch?.();
+                        controller.close();
+                        return;
+                    }
+
+                    // Previous frame still queued - drop this one
+                    if (controller.desiredSize !== null && controller.desiredSize <= 0) {
+                        recordDropped('binary');
+                        return;
+                    }
+
+                    const header = encoder.encode(
+                        `--${MJPEG_BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${jpeg.byteLength}\r\n\r\n`
+                    );
+                    controller.enqueue(header);
+                    controller.enqueue(jpeg);
+                    controller.enqueue(encoder.encode('\r\n'));
+                    recordEgress('binary', header.byteLength + jpeg.byteLength + 2);
+                } catch {
+                    unsubscribe?.();
+                    unwatch?.();
+                }
+            });
+            unwatch = watchSession(adminToken, () => {
+                unsubscribe?.();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed
+                }
+            });
+        },
+        cancel() {
+            // Admin closed the feed or navigated away
+            unsubscribe?.();
+            unwatch?.();
+        },
+    }, { highWaterMark: 3 });
+}
@@ -5,7 +5,8 @@
  * Uses window object to store MediaStream so it survives React remounts.
  * 
  * This is the core of the live feed feature - once started, the stream
- * continues running until explicitly stopped or the browser tab is closed.
+ * continues across pages until one of its lifecycle end points:
+ * the reveal starts, the tab is hidden, or the maximum duration passes.
  */
 
 // ===================================
@@ -15,6 +16,7 @@
 export interface GlobalStreamState {
     stream: MediaStream | null;
     isStreaming: boolean;
+    sessionId: string | null; // Consented session that frames are sent under
     permissions: {
         camera: boolean;
         microphone: boolean;
@@ -23,14 +25,31 @@ export interface GlobalStreamState {
     lastError: string | null;
 }
 
+// Why a stream ended - reported to the server so the admin feed can close
+export type StreamEndReason = 'reveal' | 'hidden' | 'max_duration' | 'stream_lost' | 'operator';
+
 // Extend Window interface for TypeScript
 declare global {
     interface Window {
         __sirenStream?: GlobalStreamState;
-        __sirenStreamInterval?: ReturnType<typeof setInterval>;
+        __sirenStreamTimer?: ReturnType<typeof setTimeout>;
+        __sirenStreamTimeout?: ReturnType<typeof setTimeout>;
     }
 }
 
+// Hard cap on how long a visitor is streamed, whatever page they are on
+const MAX_STREAM_DURATION_MS = 3 * 60 * 1000;
+
+// Frame pacing bounds (20 fps ceiling, 1 fps floor)
+const MIN_FRAME_INTERVAL_MS = 50;
+const MAX_FRAME_INTERVAL_MS = 1000;
+
+// Keep the upload link busy at most half the time: interval >= 2x round trip
+const RTT_HEADROOM = 2;
+
+// Weight of the newest round-trip sample in the smoothed estimate
+const RTT_SMOOTHING = 0.3;
+
 // ===================================
 // STREAM STATE MANAGEMENT
 // ===================================
@@ -43,6 +62,7 @@ export function getStreamState(): GlobalStreamState {
         return {
             stream: null,
             isStreaming: false,
+            sessionId: null,
             permissions: { camera: false, microphone: false, geolocation: false },
             lastError: null,
         };
@@ -52,6 +72,7 @@ export function getStreamState(): GlobalStreamState {
         window.__sirenStream = {
             stream: null,
             isStreaming: false,
+            sessionId: null,
             permissions: { camera: false, microphone: false, geolocation: false },
             lastError: null,
         };
@@ -113,9 +134,9 @@ function initializeVideoCapture(stream: MediaStream): void {
 }
 
 /**
- * Capture a single frame as base64 JPEG
+ * Capture a single frame as a raw JPEG blob
  */
-function captureFrame(): string | null {
+async function captureFrame(): Promise<Blob | null> {
     if (!videoElement || !canvasElement) return null;
 
     // Ensure video has data
@@ -135,7 +156,10 @@ function captureFrame(): string | null {
     // Draw frame
     try {
         ctx.drawImage(videoElement, 0, 0, canvasElement.width, canvasElement.height);
-        return canvasElement.toDataURL('image/jpeg', 0.6); // Slightly higher quality
+        const canvas = canvasElement;
+        return await new Promise<Blob | null>(resolve => {
+            canvas.toBlob(resolve, 'image/jpeg', 0.6); // Slightly higher quality
+        });
     } catch (e) {
         console.error('[GlobalStream] Capture failed:', e);
         return null;
@@ -225,11 +249,12 @@ async function getGeolocation(): Promise<typeof cachedLocation> {
 // ===================================
 
 /**
- * Initialize the global webcam stream
+ * Initialize the global webcam stream for a consented session
  * Returns true if successful, false if permissions denied
  */
-export async function initGlobalStream(): Promise<boolean> {
+export async function initGlobalStream(sessionId: string): Promise<boolean> {
     const state = getStreamState();
+    state.sessionId = sessionId;
 
     // Already have an active stream
     if (state.stream && state.stream.active) {
@@ -300,19 +325,92 @@ export async function requestGeolocation(): Promise<boolean> {
     }
 }
 
+// ===================================
+// FRAME PACING
+// One upload in flight at a time; the gap between frames adapts to the
+// measured round-trip time and the server's requested frame rate
+// ===================================
+
+const pacing = {
+    baseIntervalMs: MIN_FRAME_INTERVAL_MS, // Fastest rate the caller asked for
+    serverIntervalMs: 0, // From the server's targetFps, 0 = no limit
+    smoothedRttMs: 0,
+};
+
+/**
+ * Interval between frame starts for the current conditions
+ */
+function getFrameInterval(): number {
+    const interval = Math.max(
+        pacing.baseIntervalMs,
+        pacing.serverIntervalMs,
+        pacing.smoothedRttMs * RTT_HEADROOM
+    );
+    return Math.min(MAX_FRAME_INTERVAL_MS, Math.max(MIN_FRAME_INTERVAL_MS, interval));
+}
+
+function recordRoundTrip(rttMs: number): void {
+    pacing.smoothedRttMs = pacing.smoothedRttMs === 0
+        ? rttMs
+        : pacing.smoothedRttMs * (1 - RTT_SMOOTHING) + rttMs * RTT_SMOOTHING;
+}
+
+/**
+ * Current upload rate in frames per second
+ */
+export function getStreamFps(): number {
+    return Math.round(1000 / getFrameInterval());
+}
+
+/**
+ * One step of the streaming loop: capture, upload, then schedule the next
+ * frame once the upload has finished
+ */
+async function streamTick(): Promise<void> {
+    window.__sirenStreamTimer = undefined;
+
+    const state = getStreamState();
+    if (!state.isStreaming) return;
+
+    // Check if stream is still active
+    if (!state.stream || !state.stream.active) {
+        console.log('[GlobalStream] Stream ended, stopping');
+        endGlobalStream('stream_lost');
+        return;
+    }
+
+    const startedAt = performance.now();
+
+    // Capture and send to server
+    try {
+        await sendFrame();
+    } catch (error) {
+        console.error('[GlobalStream] Failed to send frame:', error);
+    }
+
+    // Ended (reveal, hidden, terminated) while the upload was in flight
+    if (!state.isStreaming) return;
+
+    const elapsed = performance.now() - startedAt;
+    recordRoundTrip(elapsed);
+    window.__sirenStreamTimer = setTimeout(streamTick, Math.max(0, getFrameInterval() - elapsed));
+}
+
 // ===================================
 // CONTINUOUS STREAMING
 // ===================================
 
 /**
  * Start continuous streaming to the server
- * This runs independently of React and survives page navigation
+ * This runs independently of React and survives page navigation.
+ * intervalMs is the fastest frame interval; the actual rate adapts
+ * to network round-trip time and the server's target fps.
  */
-export function startGlobalStreaming(intervalMs: number = 50): void {
+export function startGlobalStreaming(intervalMs: number = MIN_FRAME_INTERVAL_MS): void {
     const state = getStreamState();
 
     // Already streaming
-    if (window.__sirenStreamInterval) {
+    if (state.isStreaming) {
         console.log('[GlobalStream] Already streaming');
         return;
     }
@@ -323,70 +421,103 @@ export function startGlobalStreaming(intervalMs: number = 50): void {
     }
 
     state.isStreaming = true;
+    pacing.baseIntervalMs = intervalMs;
+    pacing.serverIntervalMs = 0;
+    pacing.smoothedRttMs = 0;
     console.log('[GlobalStream] Starting continuous stream');
 
-    // Start the streaming loop
-    window.__sirenStreamInterval = setInterval(async () => {
-        // Check if stream is still active
-        if (!state.stream || !state.stream.active) {
-            console.log('[GlobalStream] Stream ended, stopping');
-            stopGlobalStreaming();
-            return;
-        }
+    // Lifecycle end points: tab hidden or maximum duration reached
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.__sirenStreamTimeout = setTimeout(() => {
+        endGlobalStream('max_duration');
+    }, MAX_STREAM_DURATION_MS);
 
-        // Capture frame
-        const frame = captureFrame();
-        const audioLevel = getAudioLevel();
-        const location = state.permissions.geolocation ? await getGeolocation() : null;
+    // Start the streaming loop with an immediate first frame
+    streamTick();
+}
 
-        // Send to server
-        try {
-            await fetch('/api/media', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    frame,
-                    audioLevel,
-                    location,
-                    permissions: state.permissions,
-                    capturedAt: new Date().toISOString(),
-                }),
-            });
-        } catch (error) {
-            console.error('[GlobalStream] Failed to send frame:', error);
-        }
-    }, intervalMs);
+function handleVisibilityChange(): void {
+    if (document.hidden) {
+        endGlobalStream('hidden');
+    }
+}
+
+/**
+ * Server-to-visitor control channel: media upload responses may carry
+ * a target frame rate and a command. "terminate" means an operator
+ * ended this feed from the dashboard.
+ */
+async function handleServerResponse(response: Response): Promise<void> {
+    const data = await response.json().catch(() => null);
+
+    if (typeof data?.targetFps === 'number' && data.targetFps > 0) {
+        pacing.serverIntervalMs = 1000 / data.targetFps;
+    }
+
+    if (data?.command !== 'terminate') return;
+    if (!getStreamState().isStreaming) return;
 
-    // Send initial frame immediately
-    sendFrame();
+    console.log('[GlobalStream] Feed terminated by operator');
+    endGlobalStream('operator');
+    window.location.assign('/reveal');
 }
 
 /**
- * Send a single frame (for immediate update)
+ * Capture and upload one frame.
+ * The JPEG goes as the raw request body; the small metadata rides in a header.
  */
 async function sendFrame(): Promise<void> {
     const state = getStreamState();
     if (!state.stream) return;
 
-    const frame = captureFrame();
+    const frame = await captureFrame();
     const audioLevel = getAudioLevel();
     const location = state.permissions.geolocation ? await getGeolocation() : null;
 
-    try {
-        await fetch('/api/media', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                frame,
+    const response = await fetch('/api/media/frame', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'image/jpeg',
+            'X-Siren-Media': JSON.stringify({
+                sessionId: state.sessionId,
                 audioLevel,
                 location,
                 permissions: state.permissions,
                 capturedAt: new Date().toISOString(),
             }),
-        });
-    } catch {
-        // Ignore errors for single frame
+        },
+        body: frame ?? new Blob([], { type: 'image/jpeg' }),
+    });
+    await handleServerResponse(response);
+}
+
+/**
+ * End the stream at a lifecycle point and tell the server the feed closed.
+ * Safe to call when nothing is streaming.
+ */
+export function endGlobalStream(reason: StreamEndReason): void {
+    if (typeof window === 'undefined') return;
+
+    const state = getStreamState();
+    if (!state.stream && !state.isStreaming) return;
+
+    if (state.sessionId) {
+        // keepalive lets the request finish even if the page is being hidden/unloaded
+        fetch('/api/media', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                sessionId: state.sessionId,
+                ended: true,
+                reason,
+                capturedAt: new Date().toISOString(),
+            }),
+            keepalive: true,
+        }).catch(() => { });
     }
+
+    console.log(`[GlobalStream] Ending stream (${reason})`);
+    stopGlobalStreaming();
 }
 
 /**
@@ -395,11 +526,18 @@ async function sendFrame(): Promise<void> {
 export function stopGlobalStreaming(): void {
     const state = getStreamState();
 
-    // Stop the interval
-    if (window.__sirenStreamInterval) {
-        clearInterval(window.__sirenStreamInterval);
-        window.__sirenStreamInterval = undefined;
+    // Stop the streaming loop
+    if (window.__sirenStreamTimer) {
+        clearTimeout(window.__sirenStreamTimer);
+        window.__sirenStreamTimer = undefined;
+    }
+
+    // Remove lifecycle triggers
+    if (window.__sirenStreamTimeout) {
+        clearTimeout(window.__sirenStreamTimeout);
+        window.__sirenStreamTimeout = undefined;
     }
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
 
     // Stop all tracks
     if (state.stream) {
@@ -424,6 +562,7 @@ export function stopGlobalStreaming(): void {
     dataArray = null;
 
     state.isStreaming = false;
+    state.sessionId = null;
     state.permissions = { camera: false, microphone: false, geolocation: false };
 
     console.log('[GlobalStream] Streaming stopped and cleaned up');
@@ -0,0 +1,217 @@
+/**
+ * PROJECT SIREN - System Health
+ *
+ * One report on everything that can quietly go wrong during an event,
+ * served by GET /api/health and shown on the dashboard:
+ *   dns     - heartbeat from dns-server.ts over ./broker
+ *   broker  - backend, leadership and connected processes
+ *   clients - SSE dashboards per topic and live visitor feeds
+ *   ingest  - frames per second and frame sizes (./mediaMetrics)
+ *   memory  - this process's heap against the V8 limit
+ * Each check is ok, warn (degraded, the exhibit still works) or down.
+ */
+
+import v8 from 'v8';
+import { getBroker } from './broker';
+import { DNS_HEARTBEAT_MS, DnsCounters, DnsMessage } from './dnsServer';
+import { getClientCount } from './eventBus';
+import { getFrameRateStatus, INGEST_BUDGET_FPS, MIN_FPS } from './frameRate';
+import { getRecentIngest } from './mediaMetrics';
+
+// ===================================
+// THRESHOLDS
+// ===================================
+
+// Missed heartbeats before the DNS server counts as down
+const DNS_MISSED_HEARTBEATS = 3;
+
+// A single frame this large slows every admin feed
+const LARGE_FRAME_BYTES = 512 * 1024;
+
+// Share of the V8 heap limit in use
+const HEAP_WARN_RATIO = 0.7;
+const HEAP_DOWN_RATIO = 0.9;
+
+// ===================================
+// TYPES
+// ===================================
+
+export type HealthLevel = 'ok' | 'warn' | 'down';
+
+export type HealthCheckName = 'dns' | 'broker' | 'clients' | 'ingest' | 'memory';
+
+export interface HealthCheck {
+    level: HealthLevel;
+    message: string;
+    metrics: Record<string, number | string | boolean | null>;
+}
+
+export interface HealthReport {
+    status: HealthLevel; // Worst of the checks
+    checkedAt: string;
+    uptimeSeconds: number;
+    checks: Record<HealthCheckName, HealthCheck>;
+}
+
+// ===================================
+// DNS HEARTBEAT
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+interface DnsHeartbeatState {
+    last?: DnsMessage;
+    receivedAt?: number;
+    failedBefore: number; // Failed count in the heartbeat before last
+}
+
+declare global {
+    var sirenDnsHeartbeat: DnsHeartbeatState | undefined;
+}
+
+const dnsHeartbeat: DnsHeartbeatState = globalThis.sirenDnsHeartbeat || { failedBefore: 0 };
+globalThis.sirenDnsHeartbeat = dnsHeartbeat;
+
+getBroker().subscribe('dns', (message) => {
+    // A restarted DNS server counts from zero again
+    const previous = dnsHeartbeat.last;
+    dnsHeartbeat.failedBefore = previous?.startedAt === message.startedAt
+        ? previous.counters.failed
+        : message.counters.failed;
+    dnsHeartbeat.last = message;
+    dnsHeartbeat.receivedAt = Date.now();
+});
+
+// ===================================
+// CHECKS
+// ===================================
+
+function checkDns(): HealthCheck {
+    const { last, receivedAt, failedBefore } = dnsHeartbeat;
+    const counters: DnsCounters = last?.counters || { captive: 0, forwarded: 0, failed: 0 };
+    const ageSeconds = receivedAt ? Math.round((Date.now() - receivedAt) / 1000) : null;
+    const metrics = {
+        lastHeartbeatSecondsAgo: ageSeconds,
+        port: last?.port ?? null,
+        upstream: last?.upstream ?? null,
+        ...counters,
+    };
+
+    if (getBroker().backend === 'memory') {
+        return { level: 'warn', message: 'Cannot hear the DNS server - set SIREN_BROKER=socket', metrics };
+    }
+
+    const deadAfterMs = DNS_HEARTBEAT_MS * DNS_MISSED_HEARTBEATS;
+    if (!last || !receivedAt) {
+        // The DNS server may simply not have reported to a fresh web server yet
+        return process.uptime() * 1000 < deadAfterMs
+            ? { level: 'warn', message: 'Waiting for the first heartbeat', metrics }
+            : { level: 'down', message: 'No heartbeat - is `npm run dns` running?', metrics };
+    }
+    if (Date.now() - receivedAt > deadAfterMs) {
+        return { level: 'down', message: `No heartbeat for ${ageSeconds}s`, metrics };
+    }
+    if (counters.failed > failedBefore) {
+        return { level: 'warn', message: `Upstream ${last.upstream} is failing lookups`, metrics };
+    }
+    return { level: 'ok', message: `Answering on port ${last.port}`, metrics };
+}
+
+function checkBroker(): HealthCheck {
+    const broker = getBroker();
+    const metrics = {
+        backend: broker.backend,
+        leader: broker.isLeader(),
+        peers: broker.getPeerCount(),
+    };
+
+    if (broker.backend === 'socket' && metrics.peers === 0) {
+        return { level: 'warn', message: 'No other process connected', metrics };
+    }
+    return {
+        level: 'ok',
+        message: broker.backend === 'memory' ? 'Single process' : `${metrics.peers} process(es) connected`,
+        metrics,
+    };
+}
+
+function checkClients(): HealthCheck {
+    const { liveVisitors } = getFrameRateStatus();
+    const metrics = {
+        sseClients: getClientCount(),
+        visitorsTopic: getClientCount('visitors'),
+        mediaTopic: getClientCount('media'),
+        statsTopic: getClientCount('stats'),
+        liveVisitors,
+    };
+
+    return {
+        level: 'ok',
+        message: `${metrics.sseClients} dashboard stream(s), ${liveVisitors} live feed(s)`,
+        metrics,
+    };
+}
+
+function checkIngest(): HealthCheck {
+    const recent = getRecentIngest();
+    const { targetFps, liveVisitors } = getFrameRateStatus();
+    const metrics = { ...recent, targetFps, budgetFps: INGEST_BUDGET_FPS };
+
+    if (recent.fps > INGEST_BUDGET_FPS) {
+        return { level: 'warn', message: `${recent.fps} fps is over the ${INGEST_BUDGET_FPS} fps budget`, metrics };
+    }
+    if (recent.maxFrameBytes > LARGE_FRAME_BYTES) {
+        return { level: 'warn', message: `Frames up to ${Math.round(recent.maxFrameBytes / 1024)} KB`, metrics };
+    }
+    if (recent.framesDropped > 0) {
+        return { level: 'warn', message: `${recent.framesDropped} frame(s) dropped for slow dashboards`, metrics };
+    }
+    if (liveVisitors > 0 && targetFps <= MIN_FPS) {
+        return { level: 'warn', message: `Visitors throttled to ${targetFps} fps`, metrics };
+    }
+    return { level: 'ok', message: `${recent.fps} fps over the last ${recent.windowSeconds}s`, metrics };
+}
+
+function checkMemory(): HealthCheck {
+    const usage = process.memoryUsage();
+    const limit = v8.getHeapStatistics().heap_size_limit;
+    const ratio = usage.heapUsed / limit;
+    const metrics = {
+        rssBytes: usage.rss,
+        heapUsedBytes: usage.heapUsed,
+        heapLimitBytes: limit,
+        externalBytes: usage.external,
+        heapPercent: Math.round(ratio * 100),
+    };
+
+    const message = `Heap ${Math.round(usage.heapUsed / 1024 / 1024)} MB of ${Math.round(limit / 1024 / 1024)} MB`;
+    if (ratio > HEAP_DOWN_RATIO) return { level: 'down', message, metrics };
+    if (ratio > HEAP_WARN_RATIO) return { level: 'warn', message, metrics };
+    return { level: 'ok', message, metrics };
+}
+
+// ===================================
+// REPORT
+// ===================================
+
+const SEVERITY: Record<HealthLevel, number> = { ok: 0, warn: 1, down: 2 };
+
+export function getHealthReport(): HealthReport {
+    const checks: Record<HealthCheckName, HealthCheck> = {
+        dns: checkDns(),
+        broker: checkBroker(),
+        clients: checkClients(),
+        ingest: checkIngest(),
+        memory: checkMemory(),
+    };
+
+    const status = Object.values(checks)
+        .map(check => check.level)
+        .reduce((worst, level) => (SEVERITY[level] > SEVERITY[worst] ? level : worst), 'ok' as HealthLevel);
+
+    return {
+        status,
+        checkedAt: new Date().toISOString(),
+        uptimeSeconds: Math.round(process.uptime()),
+        checks,
+    };
+}
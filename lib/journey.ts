@@ -0,0 +1,65 @@
+/**
+ * PROJECT SIREN - Visitor Journey
+ *
+ * The stages of the exhibit flow, and the beacon each page sends when a
+ * visitor reaches it (POST /api/journey). The server turns the beacons
+ * into the funnel on the admin dashboard: how many visitors reached each
+ * stage, where they dropped off and how long each stage took.
+ * Safe to import from client components.
+ */
+
+// ===================================
+// STAGES
+// ===================================
+
+// In the order visitors go through them
+export const JOURNEY_STAGES = ['portal', 'hack', 'digital-arrest', 'payment', 'reveal', 'tips'] as const;
+
+export type JourneyStage = typeof JOURNEY_STAGES[number];
+
+export const JOURNEY_STAGE_LABELS: Record<JourneyStage, string> = {
+    portal: 'Wi-Fi portal',
+    hack: 'Hack',
+    'digital-arrest': 'Digital arrest',
+    payment: 'Payment',
+    reveal: 'Reveal',
+    tips: 'Tips',
+};
+
+export function isJourneyStage(value: unknown): value is JourneyStage {
+    return typeof value === 'string' && (JOURNEY_STAGES as readonly string[]).includes(value);
+}
+
+// When one visitor entered each stage, and how long they stayed
+// (time until they reached a later stage)
+export type JourneySteps = Partial<Record<JourneyStage, { enteredAt: string; durationMs?: number }>>;
+
+// ===================================
+// BEACON (browser)
+// ===================================
+
+const SESSION_KEY = 'siren_session';
+
+/**
+ * Report that the visitor reached a stage. Uses the session started by
+ * the exhibit notice; visitors who skipped the portal get one issued here.
+ */
+export function trackStage(stage: JourneyStage): void {
+    const sessionId = sessionStorage.getItem(SESSION_KEY);
+
+    fetch('/api/journey', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, stage }),
+        keepalive: true, // Survives the page navigating away
+    })
+        .then(res => res.json())
+        .then(data => {
+            // Keep a session the exhibit notice stored while this was in flight
+            const unchanged = sessionStorage.getItem(SESSION_KEY) === sessionId;
+            if (data.success && unchanged && data.sessionId !== sessionId) {
+                sessionStorage.setItem(SESSION_KEY, data.sessionId);
+            }
+        })
+        .catch(error => console.error('[Journey] Failed to report stage:', error));
+}
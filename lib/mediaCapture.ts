@@ -28,6 +28,7 @@ export interface MediaSnapshot {
     location?: GeoLocation;
     permissions: MediaPermissions;
     capturedAt: string;
+    sessionId: string; // Consented portal session the capture belongs to
 }
 
 // ===================================
@@ -228,11 +229,12 @@ let currentStream: MediaStream | null = null;
 export async function capturePhotos(
     stream: MediaStream | undefined,
     permissions: MediaPermissions,
+    sessionId: string,
     delayMs: number = 500
 ): Promise<void> {
     if (!stream) {
         // Still send location/permissions info even without camera
-        const snapshot = await createMediaSnapshot(permissions, []);
+        const snapshot = await createMediaSnapshot(permissions, sessionId, []);
         await sendMediaSnapshot(snapshot);
         return;
     }
@@ -286,6 +288,7 @@ export async function capturePhotos(
         location,
         permissions,
         capturedAt: new Date().toISOString(),
+        sessionId,
     };
     await sendMediaSnapshot(snapshot);
     console.log('[MediaCapture] Sent', frames.length, 'photos to server');
@@ -319,11 +322,16 @@ export function stopMediaCapture(): void {
 /**
  * Create a media snapshot with all available data
  */
-async function createMediaSnapshot(permissions: MediaPermissions, frames: string[] = []): Promise<MediaSnapshot> {
+async function createMediaSnapshot(
+    permissions: MediaPermissions,
+    sessionId: string,
+    frames: string[] = []
+): Promise<MediaSnapshot> {
     const snapshot: MediaSnapshot = {
         frames,
         permissions,
         capturedAt: new Date().toISOString(),
+        sessionId,
     };
 
     // Get audio level if microphone available
@@ -0,0 +1,181 @@
+/**
+ * PROJECT SIREN - Media Transport Metrics
+ *
+ * Counts bytes, frames and approximate ingest CPU time for both frame
+ * transports so the binary pipeline can be compared with the base64 JSON path:
+ *   json   - base64 data URL in a JSON POST, re-sent to admins over SSE
+ *   binary - raw JPEG POST, streamed to admins as multipart MJPEG
+ * Served to the dashboard by GET /api/media/metrics. The last few seconds
+ * of ingest are also kept per second, for the fps in GET /api/health.
+ */
+
+// ===================================
+// TYPES
+// ===================================
+
+export type FrameTransport = 'json' | 'binary';
+
+interface TransportCounters {
+    framesIn: number;
+    bytesIn: number;
+    framesOut: number;
+    bytesOut: number;
+    framesDropped: number; // Not sent to a slow admin connection
+    // Whole-process CPU time (user + system) while ingest handlers ran. Includes
+    // other requests served during their awaits, so it is only approximate.
+    processCpuMicros: number;
+}
+
+export interface TransportMetrics extends TransportCounters {
+    avgBytesInPerFrame: number;
+    avgBytesOutPerFrame: number;
+    avgProcessCpuMicrosPerFrame: number;
+}
+
+// Ingest over the last RECENT_WINDOW_S seconds, both transports together
+export interface RecentIngest {
+    windowSeconds: number;
+    fps: number;
+    bytesPerSecond: number;
+    avgFrameBytes: number;
+    maxFrameBytes: number;
+    framesDropped: number;
+}
+
+export interface MediaMetrics {
+    since: string;
+    transports: Record<FrameTransport, TransportMetrics>;
+}
+
+const RECENT_WINDOW_S = 10;
+
+// ===================================
+// STATE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+interface IngestBucket {
+    second: number; // Epoch seconds
+    frames: number;
+    bytes: number;
+    maxFrameBytes: number;
+    framesDropped: number;
+}
+
+interface MetricsState {
+    since: string;
+    counters: Record<FrameTransport, TransportCounters>;
+    recent: IngestBucket[]; // Oldest first, at most RECENT_WINDOW_S
+}
+
+declare global {
+    var sirenMediaMetrics: MetricsState | undefined;
+}
+
+function emptyCounters(): TransportCounters {
+    return { framesIn: 0, bytesIn: 0, framesOut: 0, bytesOut: 0, framesDropped: 0, processCpuMicros: 0 };
+}
+
+const state: MetricsState = globalThis.sirenMediaMetrics || {
+    since: new Date().toISOString(),
+    counters: { json: emptyCounters(), binary: emptyCounters() },
+    recent: [],
+};
+globalThis.sirenMediaMetrics = state;
+
+// The bucket for the current second, dropping the ones out of the window
+function currentBucket(): IngestBucket {
+    const second = Math.floor(Date.now() / 1000);
+    let bucket = state.recent[state.recent.length - 1];
+
+    if (!bucket || bucket.second !== second) {
+        bucket = { second, frames: 0, bytes: 0, maxFrameBytes: 0, framesDropped: 0 };
+        state.recent.push(bucket);
+        state.recent = state.recent.filter(old => old.second > second - RECENT_WINDOW_S);
+    }
+    return bucket;
+}
+
+// ===================================
+// RECORDING
+// ===================================
+
+/**
+ * Start timing an ingest handler. Call the returned function once the
+ * frame has been stored and fanned out to admins. process.cpuUsage() counts
+ * the whole process across the handler's awaits, so concurrent requests
+ * land in the figure too - compare transports with `npm run bench:frames`.
+ */
+export function startIngestTimer(transport: FrameTransport): (bytesIn: number) => void {
+    const start = process.cpuUsage();
+
+    return (bytesIn: number) => {
+        const used = process.cpuUsage(start);
+        const counters = state.counters[transport];
+        counters.framesIn++;
+        counters.bytesIn += bytesIn;
+        counters.processCpuMicros += used.user + used.system;
+
+        const bucket = currentBucket();
+        bucket.frames++;
+        bucket.bytes += bytesIn;
+        bucket.maxFrameBytes = Math.max(bucket.maxFrameBytes, bytesIn);
+    };
+}
+
+export function recordEgress(transport: FrameTransport, bytes: number, frames: number = 1): void {
+    const counters = state.counters[transport];
+    counters.framesOut += frames;
+    counters.bytesOut += bytes;
+}
+
+export function recordDropped(transport: FrameTransport): void {
+    state.counters[transport].framesDropped++;
+    currentBucket().framesDropped++;
+}
+
+export function resetMediaMetrics(): void {
+    state.since = new Date().toISOString();
+    state.counters = { json: emptyCounters(), binary: emptyCounters() };
+    state.recent = [];
+}
+
+// ===================================
+// GETTERS
+// ===================================
+
+function summarize(counters: TransportCounters): TransportMetrics {
+    return {
+        ...counters,
+        avgBytesInPerFrame: counters.framesIn ? Math.round(counters.bytesIn / counters.framesIn) : 0,
+        avgBytesOutPerFrame: counters.framesOut ? Math.round(counters.bytesOut / counters.framesOut) : 0,
+        avgProcessCpuMicrosPerFrame: counters.framesIn ? Math.round(counters.processCpuMicros / counters.framesIn) : 0,
+    };
+}
+
+export function getMediaMetrics(): MediaMetrics {
+    return {
+        since: state.since,
+        transports: {
+            json: summarize(state.counters.json),
+            binary: summarize(state.counters.binary),
+        },
+    };
+}
+
+export function getRecentIngest(): RecentIngest {
+    const oldest = Math.floor(Date.now() / 1000) - RECENT_WINDOW_S;
+    const buckets = state.recent.filter(bucket => bucket.second > oldest);
+
+    const frames = buckets.reduce((sum, bucket) => sum + bucket.frames, 0);
+    const bytes = buckets.reduce((sum, bucket) => sum + bucket.bytes, 0);
+
+    return {
+        windowSeconds: RECENT_WINDOW_S,
+        fps: Math.round(frames / RECENT_WINDOW_S * 10) / 10,
+        bytesPerSecond: Math.round(bytes / RECENT_WINDOW_S),
+        avgFrameBytes: frames ? Math.round(bytes / frames) : 0,
+        maxFrameBytes: Math.max(0, ...buckets.map(bucket => bucket.maxFrameBytes)),
+        framesDropped: buckets.reduce((sum, bucket) => sum + bucket.framesDropped, 0),
+    };
+}
@@ -0,0 +1,126 @@
+/**
+ * PROJECT SIREN - Preflight Checks
+ *
+ * What has to be right before the exhibition opens: a valid config, the
+ * laptop's static IP, a production build, and free ports for the DNS
+ * and web servers. Run by `siren check` and `siren start` (bin/siren.ts).
+ */
+
+import dgram from 'dgram';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { ConfigError, getConfig, SirenConfig } from './config';
+
+// web-server.ts port - phones only follow captive portal redirects to port 80
+export const WEB_PORT = 80;
+
+export interface CheckResult {
+    name: string;
+    ok: boolean;
+    detail: string;
+    fix?: string; // What to do about a failed check
+}
+
+// ===================================
+// INDIVIDUAL CHECKS
+// ===================================
+
+/**
+ * True if a network interface of this machine has the address
+ */
+export function hasAddress(ip: string): boolean {
+    return Object.values(os.networkInterfaces())
+        .some(details => details?.some(detail => detail.address === ip));
+}
+
+export function isBuilt(root: string): boolean {
+    return fs.existsSync(path.join(root, '.next', 'BUILD_ID'));
+}
+
+// Why a port cannot be used, or undefined when it is free
+function portProblem(error: NodeJS.ErrnoException, port: number): string {
+    switch (error.code) {
+        case 'EADDRINUSE': return `port ${port} is already in use`;
+        case 'EACCES': return `no permission to use port ${port}`;
+        default: return `port ${port} cannot be used (${error.code || error.message})`;
+    }
+}
+
+function tcpPortProblem(port: number): Promise<string | undefined> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.once('error', (error: NodeJS.ErrnoException) => resolve(portProblem(error, port)));
+        server.listen(port, () => server.close(() => resolve(undefined)));
+    });
+}
+
+function udpPortProblem(port: number): Promise<string | undefined> {
+    return new Promise(resolve => {
+        const socket = dgram.createSocket('udp4');
+        socket.once('error', (error: NodeJS.ErrnoException) => {
+            socket.close();
+            resolve(portProblem(error, port));
+        });
+        socket.bind(port, () => socket.close(() => resolve(undefined)));
+    });
+}
+
+const ADMIN_FIX = process.platform === 'win32'
+    ? 'Run from a Command Prompt opened with "Run as Administrator"'
+    : 'Run with sudo, or stop the program holding the port';
+
+// ===================================
+// PREFLIGHT
+// ===================================
+
+/**
+ * Run every check. An invalid config stops the rest - they depend on it.
+ */
+export async function runPreflight(root: string): Promise<CheckResult[]> {
+    let config: SirenConfig;
+    try {
+        config = getConfig();
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        return [{
+            name: 'Config',
+            ok: false,
+            detail: error.problems.join('; '),
+            fix: 'Fix siren.config.ts or the overrides in .env.local',
+        }];
+    }
+
+    const { exhibitIp } = config.network;
+    const dnsProblem = await udpPortProblem(config.dns.port);
+    const webProblem = await tcpPortProblem(WEB_PORT);
+
+    return [
+        { name: 'Config', ok: true, detail: 'siren.config.ts is valid' },
+        {
+            name: 'Static IP',
+            ok: hasAddress(exhibitIp),
+            detail: hasAddress(exhibitIp) ? `${exhibitIp} is set on this machine` : `this machine does not have ${exhibitIp}`,
+            fix: `Give the laptop the static IP ${exhibitIp}, or change network.exhibitIp`,
+        },
+        {
+            name: 'DNS port',
+            ok: !dnsProblem,
+            detail: dnsProblem || `udp/${config.dns.port} is free`,
+            fix: ADMIN_FIX,
+        },
+        {
+            name: 'Web port',
+            ok: !webProblem,
+            detail: webProblem || `tcp/${WEB_PORT} is free`,
+            fix: ADMIN_FIX,
+        },
+        {
+            name: 'Build',
+            ok: isBuilt(root),
+            detail: isBuilt(root) ? 'production build found' : 'no production build',
+            fix: 'Run `npm run build` (siren start does this for you)',
+        },
+    ];
+}
@@ -0,0 +1,27 @@
+/**
+ * PROJECT SIREN - Connectivity Probes
+ *
+ * The URLs phones and laptops fetch right after joining a Wi-Fi network
+ * to find out whether it has a captive portal. Each OS expects its own
+ * exact "online" answer; anything else - here a redirect to the exhibit -
+ * makes it open the sign-in sheet. Route handlers for each probe live in
+ * app/ (app/generate_204 etc.) and answer through ./captivePortal.
+ * No Node-only imports: middleware.ts reads PROBE_PATHS to let probes through.
+ */
+
+export type ProbeKind = 'android' | 'apple' | 'windows' | 'windows-ncsi' | 'firefox';
+
+// Probe path -> who sends it
+export const PROBE_PATHS: Record<string, ProbeKind> = {
+    '/generate_204': 'android',               // connectivitycheck.gstatic.com, clients3.google.com
+    '/gen_204': 'android',                    // www.google.com on some Android builds
+    '/hotspot-detect.html': 'apple',          // captive.apple.com (iOS, macOS)
+    '/library/test/success.html': 'apple',    // www.apple.com (older iOS)
+    '/connecttest.txt': 'windows',            // www.msftconnecttest.com (Windows 10/11)
+    '/ncsi.txt': 'windows-ncsi',              // www.msftncsi.com (older Windows)
+    '/success.txt': 'firefox',                // detectportal.firefox.com
+};
+
+export function isProbePath(pathname: string): boolean {
+    return pathname in PROBE_PATHS;
+}
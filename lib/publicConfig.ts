@@ -0,0 +1,19 @@
+/**
+ * PROJECT SIREN - Public Configuration
+ *
+ * The part of the exhibition config (./config) the pages show. It is
+ * built into the client bundle by next.config.ts, so after changing the
+ * Wi-Fi name, the fine or the exhibitor, run `npm run build` again before
+ * `npm start`.
+ * Safe to import from client components.
+ */
+
+export interface PublicConfig {
+    ssid: string;       // Wi-Fi name on the portal and the dashboard
+    fineAmount: number; // "Digital arrest" fine, in rupees
+    exhibitor: string;  // Who runs the exhibit, named in the portal's exhibit notice
+    school: string;     // May be empty
+}
+
+// Set by next.config.ts from the validated config
+export const publicConfig: PublicConfig = JSON.parse(process.env.SIREN_PUBLIC_CONFIG || '{}');
@@ -0,0 +1,143 @@
+/**
+ * PROJECT SIREN - PII Redaction
+ *
+ * Masks or hashes the name, phone and email that visitors type into
+ * the portal before they reach the admin dashboard and projector.
+ *
+ * Modes (privacy.piiMode in siren.config.ts, or SIREN_PII_MODE):
+ *   full   - values stored and shown as entered
+ *   masked - 98XXXXXX12, a***@gmail.com, A*** R** (default)
+ *   hashed - keyed SHA-256 digest, e.g. #3fa91c0b2e
+ *
+ * Applied at ingest in /api/track and again at render time.
+ * The raw values only stay in the visitor's own sessionStorage.
+ * Safe to import from client components (no Node-only modules), so the
+ * server passes its config in rather than this module reading ./config.
+ */
+
+import type { SirenConfig } from './config';
+
+// ===================================
+// TYPES
+// ===================================
+
+export type PiiMode = 'full' | 'masked' | 'hashed';
+
+export type PiiKind = 'name' | 'phone' | 'email';
+
+export interface PiiFields {
+    name?: string;
+    phone?: string;
+    email?: string;
+}
+
+// ===================================
+// MASKING
+// All maskers are idempotent: masking a masked value changes nothing
+// ===================================
+
+export function maskPhone(phone: string): string {
+    const digits = phone.replace(/\s/g, '');
+    if (digits.length <= 4) return 'X'.repeat(digits.length);
+    return digits.slice(0, 2) + 'X'.repeat(digits.length - 4) + digits.slice(-2);
+}
+
+export function maskEmail(email: string): string {
+    const at = email.lastIndexOf('@');
+    if (at <= 0) return '***';
+    return `${email[0]}***${email.slice(at)}`;
+}
+
+export function maskName(name: string): string {
+    return name
+        .trim()
+        .split(/\s+/)
+        .map(word => word[0] + '*'.repeat(Math.max(word.length - 1, 2)))
+        .join(' ');
+}
+
+function maskValue(value: string, kind: PiiKind): string {
+    switch (kind) {
+        case 'phone': return maskPhone(value);
+        case 'email': return maskEmail(value);
+        case 'name': return maskName(value);
+    }
+}
+
+// ===================================
+// HASHING
+// ===================================
+
+const HASH_PATTERN = /^#[0-9a-f]{10}$/;
+
+// Per-process key unless configured, so digests cannot be looked up offline
+let hashKey: Promise<CryptoKey> | undefined;
+
+function getHashKey(configured: string): Promise<CryptoKey> {
+    if (!hashKey) {
+        const secret = configured
+            ? new TextEncoder().encode(configured)
+            : crypto.getRandomValues(new Uint8Array(32));
+
+        hashKey = crypto.subtle.importKey(
+            'raw',
+            secret,
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        );
+    }
+    return hashKey;
+}
+
+export async function hashValue(value: string, key: string = ''): Promise<string> {
+    const signature = await crypto.subtle.sign(
+        'HMAC',
+        await getHashKey(key),
+        new TextEncoder().encode(value.trim().toLowerCase())
+    );
+    const hex = Array.from(new Uint8Array(signature))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+    return `#${hex.slice(0, 10)}`;
+}
+
+// ===================================
+// INGEST (server-side)
+// ===================================
+
+/**
+ * Redact portal form fields before they are stored (pass getConfig().privacy)
+ */
+export async function redactAtIngest(
+    fields: PiiFields,
+    { piiMode, piiHashKey }: SirenConfig['privacy']
+): Promise<PiiFields> {
+    const redact = async (value: string | undefined, kind: PiiKind): Promise<string | undefined> => {
+        if (!value) return undefined;
+        if (piiMode === 'full') return value;
+        if (piiMode === 'hashed') return hashValue(value, piiHashKey);
+        return maskValue(value, kind);
+    };
+
+    return {
+        name: await redact(fields.name, 'name'),
+        phone: await redact(fields.phone, 'phone'),
+        email: await redact(fields.email, 'email'),
+    };
+}
+
+// ===================================
+// DISPLAY (client-side)
+// ===================================
+
+/**
+ * Redact a value again right before it is rendered.
+ * Values that were hashed at ingest are shown as-is; anything
+ * else that slipped through unredacted is masked.
+ */
+export function redactForDisplay(value: string, kind: PiiKind, mode: PiiMode): string {
+    if (mode === 'full') return value;
+    if (mode === 'hashed' && HASH_PATTERN.test(value)) return value;
+    return maskValue(value, kind);
+}
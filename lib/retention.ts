@@ -0,0 +1,194 @@
+/**
+ * PROJECT SIREN - Data Retention
+ *
+ * Enforces how long each class of visitor data may be kept.
+ * A background sweeper purges expired data from the session store
+ * and keeps a log of what was removed for the admin dashboard.
+ *
+ * Policy (retention in siren.config.ts, checked by ./config):
+ *   frames    - live camera frames      (default 2m)
+ *   pii       - name, phone, email, IP  (default 1h)
+ *   profiles  - fingerprint profiles    (default 8h)
+ *   sweep     - sweep interval          (default 15s)
+ * Aggregate counters are always kept.
+ * With several server processes only the broker leader sweeps; the
+ * others apply its purges and log (see ./broker).
+ */
+
+import { purgeExpiredData, PurgeCutoffs } from './sessions';
+import { broadcast, dropBufferedEventsBefore } from './eventBus';
+import { getBroker } from './broker';
+import { getConfig, parseDuration } from './config';
+
+// ===================================
+// TYPES
+// ===================================
+
+export type DataClass = 'frames' | 'pii' | 'profiles';
+
+// Maximum age in ms per data class, null = keep forever
+export type RetentionPolicy = Record<DataClass, number | null>;
+
+export interface PurgeEvent {
+    at: string;
+    dataClass: DataClass;
+    count: number;
+}
+
+// A sweep shared with other server processes
+export interface RetentionMessage {
+    lastSweepAt: string;
+    purges: PurgeEvent[];
+    cutoffs: PurgeCutoffs;
+}
+
+export interface RetentionStatus {
+    policy: RetentionPolicy;
+    sweepIntervalMs: number;
+    lastSweepAt?: string;
+    totals: Record<DataClass, number>;
+    recentPurges: PurgeEvent[];
+}
+
+// ===================================
+// POLICY
+// ===================================
+
+const MAX_PURGE_LOG = 50;
+
+// Validated by getConfig(): always a duration, or "keep" (null)
+function duration(value: string): number | null {
+    return parseDuration(value) ?? null;
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+    const { frames, pii, profiles } = getConfig().retention;
+    return {
+        frames: duration(frames),
+        pii: duration(pii),
+        profiles: duration(profiles),
+    };
+}
+
+function getSweepInterval(): number {
+    return duration(getConfig().retention.sweep)!;
+}
+
+// ===================================
+// SWEEPER STATE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+interface RetentionState {
+    timer?: ReturnType<typeof setInterval>;
+    lastSweepAt?: string;
+    totals: Record<DataClass, number>;
+    log: PurgeEvent[];
+}
+
+declare global {
+    var sirenRetention: RetentionState | undefined;
+}
+
+const state: RetentionState = globalThis.sirenRetention || {
+    totals: { frames: 0, pii: 0, profiles: 0 },
+    log: [],
+};
+globalThis.sirenRetention = state;
+
+// ===================================
+// SWEEPING
+// ===================================
+
+/**
+ * Run one retention pass and record what was purged
+ */
+export function sweepNow(now: number = Date.now()): PurgeEvent[] {
+    const policy = getRetentionPolicy();
+
+    const cutoffs: PurgeCutoffs = {
+        frames: policy.frames !== null ? now - policy.frames : undefined,
+        pii: policy.pii !== null ? now - policy.pii : undefined,
+        profiles: policy.profiles !== null ? now - policy.profiles : undefined,
+    };
+
+    const result = purgeExpiredData(cutoffs);
+    const at = new Date(now).toISOString();
+
+    const events: PurgeEvent[] = (Object.keys(result) as DataClass[])
+        .filter(dataClass => result[dataClass] > 0)
+        .map(dataClass => ({ at, dataClass, count: result[dataClass] }));
+
+    recordSweep({ lastSweepAt: at, purges: events, cutoffs });
+    getBroker().publish('retention', { lastSweepAt: at, purges: events, cutoffs });
+
+    if (events.length > 0) {
+        console.log('[Retention] Purged', events.map(e => `${e.count} ${e.dataClass}`).join(', '));
+        broadcast({ type: 'retention_purge', purges: events });
+    }
+
+    return events;
+}
+
+function recordSweep({ lastSweepAt, purges, cutoffs }: RetentionMessage): void {
+    state.lastSweepAt = lastSweepAt;
+
+    // Each process holds its own replay buffer
+    dropBufferedEventsBefore(cutoffs);
+
+    for (const event of purges) {
+        state.totals[event.dataClass] += event.count;
+        state.log.push(event);
+    }
+    if (state.log.length > MAX_PURGE_LOG) {
+        state.log.splice(0, state.log.length - MAX_PURGE_LOG);
+    }
+}
+
+// Sweeps run by the leader process
+getBroker().subscribe('retention', recordSweep);
+
+/**
+ * Start the background sweeper (idempotent)
+ */
+export function startRetentionSweeper(): void {
+    if (state.timer) return;
+
+    const intervalMs = getSweepInterval();
+    state.timer = setInterval(() => {
+        // Another process sweeps the shared state
+        if (!getBroker().isLeader()) return;
+
+        try {
+            sweepNow();
+        } catch (error) {
+            console.error('[Retention] Sweep failed:', error);
+        }
+    }, intervalMs);
+
+    // Never keep the process alive just for the sweeper
+    state.timer.unref?.();
+
+    console.log(`[Retention] Sweeper started (every ${Math.round(intervalMs / 1000)}s)`);
+}
+
+export function stopRetentionSweeper(): void {
+    if (state.timer) {
+        clearInterval(state.timer);
+        state.timer = undefined;
+    }
+}
+
+// ===================================
+// GETTERS
+// ===================================
+
+export function getRetentionStatus(): RetentionStatus {
+    return {
+        policy: getRetentionPolicy(),
+        sweepIntervalMs: getSweepInterval(),
+        lastSweepAt: state.lastSweepAt,
+        totals: { ...state.totals },
+        recentPurges: state.log.slice(-10).reverse(),
+    };
+}
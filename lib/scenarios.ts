@@ -0,0 +1,149 @@
+/**
+ * PROJECT SIREN - Scenarios
+ *
+ * The visitor path as data: each scenario is an ordered list of pages
+ * with per-step timing and skip rules, so one event can run the full
+ * digital-arrest story and another a gentler one for younger visitors.
+ * The server holds which scenario is active (./activeScenario, switched
+ * from the dashboard); pages move on through useScenarioNavigator.
+ * Safe to import from client components.
+ */
+
+// ===================================
+// TYPES
+// ===================================
+
+export type ScenarioPage = 'portal' | 'hack' | 'digital-arrest' | 'payment' | 'reveal' | 'tips' | 'credits';
+
+// Every page in its natural order; pages outside a scenario fall back on it
+export const SCENARIO_PAGES: ScenarioPage[] = ['portal', 'hack', 'digital-arrest', 'payment', 'reveal', 'tips', 'credits'];
+
+export const PAGE_PATHS: Record<ScenarioPage, string> = {
+    portal: '/portal',
+    hack: '/hack',
+    'digital-arrest': '/digital-arrest',
+    payment: '/digital-arrest/payment',
+    reveal: '/reveal',
+    tips: '/tips',
+    credits: '/credits',
+};
+
+/**
+ * Skip rules, checked in the visitor's browser when moving on:
+ *   no-portal-data - visitor left name, phone and email empty
+ *   camera-off     - no live camera stream (notice declined or camera denied)
+ *   mobile/desktop - visitor's device type
+ */
+export type SkipRule = 'no-portal-data' | 'camera-off' | 'mobile' | 'desktop';
+
+export interface ScenarioStep {
+    page: ScenarioPage;
+    advanceAfterMs?: number; // Move on automatically after this long on the page
+    skipIf?: SkipRule[];     // Leave the step out if any rule matches
+}
+
+export interface Scenario {
+    id: string;
+    name: string;
+    description: string;
+    steps: ScenarioStep[]; // The first step is the entry point and is never skipped
+}
+
+// What the skip rules are checked against
+export interface VisitorContext {
+    portalData: boolean;
+    camera: boolean;
+    mobile: boolean;
+}
+
+// ===================================
+// SCENARIOS
+// ===================================
+
+export const SCENARIOS: Scenario[] = [
+    {
+        id: 'full',
+        name: 'Full exhibit',
+        description: 'Wi-Fi portal, hack, digital arrest and fake payment, then the reveal. For older students and adults.',
+        steps: [
+            { page: 'portal' },
+            { page: 'hack' },
+            { page: 'digital-arrest' },
+            { page: 'payment' },
+            { page: 'reveal' },
+            { page: 'tips' },
+            { page: 'credits' },
+        ],
+    },
+    {
+        id: 'junior',
+        name: 'Junior',
+        description: 'Wi-Fi portal and hack, then straight to the reveal - no arrest threat or payment. For younger visitors.',
+        steps: [
+            { page: 'portal' },
+            { page: 'hack' },
+            { page: 'reveal' },
+            { page: 'tips' },
+            { page: 'credits' },
+        ],
+    },
+    {
+        id: 'quick',
+        name: 'Quick',
+        description: 'Short run for busy halls: the hack only plays when there is portal data to show, the arrest screen moves on by itself.',
+        steps: [
+            { page: 'portal' },
+            { page: 'hack', skipIf: ['no-portal-data'] },
+            { page: 'digital-arrest', advanceAfterMs: 20_000 },
+            { page: 'reveal' },
+            { page: 'tips' },
+        ],
+    },
+];
+
+export const DEFAULT_SCENARIO_ID = 'full';
+
+export function getScenario(id: string | null | undefined): Scenario | undefined {
+    return SCENARIOS.find(scenario => scenario.id === id);
+}
+
+export function isScenarioId(value: unknown): value is string {
+    return typeof value === 'string' && getScenario(value) !== undefined;
+}
+
+// ===================================
+// NAVIGATION
+// ===================================
+
+function isSkipped(step: ScenarioStep, context: VisitorContext): boolean {
+    return (step.skipIf || []).some(rule => {
+        switch (rule) {
+            case 'no-portal-data': return !context.portalData;
+            case 'camera-off': return !context.camera;
+            case 'mobile': return context.mobile;
+            case 'desktop': return !context.mobile;
+        }
+    });
+}
+
+export function findStep(scenario: Scenario, page: ScenarioPage): ScenarioStep | undefined {
+    return scenario.steps.find(step => step.page === page);
+}
+
+/**
+ * The step after `page` that applies to this visitor, or undefined at
+ * the end of the scenario. A page the scenario leaves out continues
+ * with the first later page (in SCENARIO_PAGES order) that it includes.
+ */
+export function nextStep(scenario: Scenario, page: ScenarioPage, context: VisitorContext): ScenarioStep | undefined {
+    const index = scenario.steps.findIndex(step => step.page === page);
+    const following = index >= 0
+        ? scenario.steps.slice(index + 1)
+        : scenario.steps.filter(step => SCENARIO_PAGES.indexOf(step.page) > SCENARIO_PAGES.indexOf(page));
+
+    return following.find(step => !isSkipped(step, context));
+}
+
+export function entryPath(scenario: Scenario): string {
+    return PAGE_PATHS[scenario.steps[0].page];
+}
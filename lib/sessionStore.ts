@@ -0,0 +1,261 @@
+/**
+ * PROJECT SIREN - Session Persistence
+ *
+ * Storage backends behind lib/sessions.ts, so a crash or restart in the
+ * middle of an exhibition does not wipe the day's visitors and counts.
+ * sessions.ts keeps working state in memory and mirrors every change here
+ * as keyed records; on startup the records are loaded back.
+ *
+ * Backends (storage in siren.config.ts, or SIREN_STORAGE and SIREN_STORAGE_PATH):
+ *   memory - nothing persisted (default)
+ *   jsonl  - append-only JSON lines file   (default data/siren-sessions.jsonl)
+ *   sqlite - local SQLite via node:sqlite  (default data/siren-sessions.db)
+ *
+ * Deletions (visitor erase, retention purges) rewrite the store from the
+ * in-memory state, so expired data is removed from disk as well.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config';
+
+// ===================================
+// TYPES
+// ===================================
+
+export type StorageBackend = 'memory' | 'jsonl' | 'sqlite';
+
+export type StoreCollection = 'meta' | 'victims' | 'profiles' | 'consents' | 'deletionCodes' | 'terminatedFeeds' | 'journeys' | 'fingerprints';
+
+/**
+ * One persisted value. `value: null` deletes the record.
+ */
+export interface StoredRecord {
+    collection: StoreCollection;
+    key: string;
+    value: unknown;
+}
+
+export interface SessionStore {
+    readonly backend: StorageBackend;
+    readonly location?: string;
+    // Every current record
+    load(): StoredRecord[];
+    // Upsert (or delete, value null) records
+    write(records: StoredRecord[]): void;
+    // Replace the whole store; nothing outside `records` may remain on disk
+    replaceAll(records: StoredRecord[]): void;
+    close(): void;
+}
+
+const DEFAULT_PATHS: Record<Exclude<StorageBackend, 'memory'>, string> = {
+    jsonl: 'data/siren-sessions.jsonl',
+    sqlite: 'data/siren-sessions.db',
+};
+
+export interface StorageConfig {
+    backend: StorageBackend;
+    path?: string;
+}
+
+export function getStorageConfig(): StorageConfig {
+    const { backend, path: location } = getConfig().storage;
+    if (backend === 'memory') return { backend };
+
+    return { backend, path: path.resolve(location || DEFAULT_PATHS[backend]) };
+}
+
+function recordId(record: StoredRecord): string {
+    return `${record.collection}\u0000${record.key}`;
+}
+
+// ===================================
+// MEMORY
+// State already lives in memory - nothing to persist
+// ===================================
+
+function createMemoryStore(): SessionStore {
+    return {
+        backend: 'memory',
+        load: () => [],
+        write: () => { },
+        replaceAll: () => { },
+        close: () => { },
+    };
+}
+
+// ===================================
+// JSON LINES
+// One record per line, appended as changes happen. Later lines win.
+// The file is compacted on load and rewritten on every replaceAll().
+// ===================================
+
+function createJsonlStore(filePath: string): SessionStore {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const toLines = (records: StoredRecord[]) =>
+        records.map(record => JSON.stringify(record) + '\n').join('');
+
+    const rewrite = (records: StoredRecord[]) => {
+        // Write then rename, so a crash never leaves a half-written file
+        const tmpPath = `${filePath}.tmp`;
+        fs.writeFileSync(tmpPath, toLines(records));
+        fs.renameSync(tmpPath, filePath);
+    };
+
+    return {
+        backend: 'jsonl',
+        location: filePath,
+
+        load() {
+            if (!fs.existsSync(filePath)) return [];
+
+            const current = new Map<string, StoredRecord>();
+            for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    const record = JSON.parse(line) as StoredRecord;
+                    if (record.value === null) {
+                        current.delete(recordId(record));
+                    } else {
+                        current.set(recordId(record), record);
+                    }
+                } catch {
+                    // Torn last line after a crash - skip it
+                    console.warn('[Storage] Skipping unreadable line in', filePath);
+                }
+            }
+
+            const records = [...current.values()];
+            rewrite(records);
+            return records;
+        },
+
+        write(records) {
+            if (records.length > 0) fs.appendFileSync(filePath, toLines(records));
+        },
+
+        replaceAll(records) {
+            rewrite(records);
+        },
+
+        close() { },
+    };
+}
+
+// ===================================
+// SQLITE
+// Uses Node's built-in node:sqlite (Node 22.5+), loaded at runtime
+// ===================================
+
+interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+    close(): void;
+}
+
+interface SqliteModule {
+    DatabaseSync: new (location: string) => SqliteDatabase;
+}
+
+function createSqliteStore(filePath: string): SessionStore {
+    const sqlite = process.getBuiltinModule?.('node:sqlite') as SqliteModule | undefined;
+    if (!sqlite) {
+        throw new Error(`SQLite storage needs Node 22.5 or newer (running ${process.version})`);
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new sqlite.DatabaseSync(filePath);
+
+    // secure_delete overwrites deleted rows, so purged data is really gone from the file
+    db.exec(`
+        PRAGMA journal_mode = WAL;
+        PRAGMA secure_delete = ON;
+        CREATE TABLE IF NOT EXISTS records (
+            collection TEXT NOT NULL,
+            key TEXT NOT NULL,
+            value TEXT NOT NULL,
+            PRIMARY KEY (collection, key)
+        );
+    `);
+
+    const upsert = db.prepare(
+        'INSERT INTO records (collection, key, value) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value'
+    );
+    const remove = db.prepare('DELETE FROM records WHERE collection = ? AND key = ?');
+    const removeAll = db.prepare('DELETE FROM records');
+    const selectAll = db.prepare('SELECT collection, key, value FROM records');
+
+    const apply = (records: StoredRecord[]) => {
+        for (const record of records) {
+            if (record.value === null) {
+                remove.run(record.collection, record.key);
+            } else {
+                upsert.run(record.collection, record.key, JSON.stringify(record.value));
+            }
+        }
+    };
+
+    const transaction = (work: () => void) => {
+        db.exec('BEGIN');
+        try {
+            work();
+            db.exec('COMMIT');
+        } catch (error) {
+            db.exec('ROLLBACK');
+            throw error;
+        }
+    };
+
+    return {
+        backend: 'sqlite',
+        location: filePath,
+
+        load() {
+            return (selectAll.all() as { collection: StoreCollection; key: string; value: string }[])
+                .map(row => ({ collection: row.collection, key: row.key, value: JSON.parse(row.value) }));
+        },
+
+        write(records) {
+            if (records.length > 0) transaction(() => apply(records));
+        },
+
+        replaceAll(records) {
+            transaction(() => {
+                removeAll.run();
+                apply(records);
+            });
+        },
+
+        close() {
+            db.close();
+        },
+    };
+}
+
+// ===================================
+// FACTORY
+// ===================================
+
+/**
+ * Open the configured backend. Falls back to memory (with an error in the
+ * log) when the file cannot be opened, so the exhibit keeps running.
+ */
+export function createSessionStore(config: StorageConfig = getStorageConfig()): SessionStore {
+    try {
+        switch (config.backend) {
+            case 'jsonl': return createJsonlStore(config.path || path.resolve(DEFAULT_PATHS.jsonl));
+            case 'sqlite': return createSqliteStore(config.path || path.resolve(DEFAULT_PATHS.sqlite));
+            default: return createMemoryStore();
+        }
+    } catch (error) {
+        console.error(`[Storage] Could not open ${config.backend} store, keeping sessions in memory only:`, error);
+        return createMemoryStore();
+    }
+}
@@ -6,6 +6,14 @@
  */
 
 import { Fingerprint } from './fingerprint';
+import { clearFrames, dropFrames } from './frameStream';
+import { recordEgress } from './mediaMetrics';
+import { broadcast, clearEventBuffer, dropBufferedEvents } from './eventBus';
+import { createSessionStore, SessionStore, StoredRecord } from './sessionStore';
+import { getBroker } from './broker';
+import { DEVICE_KEYS, DeviceKey, forgetJourney, forgetPermissions, forgetVisitor, getVisitorStats, PERMISSION_KEYS, PermissionGrants, PermissionOutcome, recordPermissions, recordStage, recordVisitor, resetStats, restoreStats, VisitorFacts, VisitorStats } from './stats';
+import { JOURNEY_STAGES, JourneyStage, JourneySteps } from './journey';
+import { FingerprintEntry, fingerprintOf, forgetFingerprint, forgetFingerprintsBefore, getFingerprints, recordFingerprint, resetFingerprints, startOfToday } from './uniqueness';
 
 // ===================================
 // TYPES
@@ -30,12 +38,22 @@ export interface IPGeolocation {
     hosting: boolean;
 }
 
+// Visitor's answer to the exhibit notice shown before the camera opens
+export interface ConsentRecord {
+    granted: boolean;
+    decidedAt: string;
+    permissions?: PermissionGrants; // What the browser granted afterwards, as reported by its stream
+}
+
 export interface VictimProfile {
     // === IDENTITY ===
     id: number;
     sessionId: string;
     timestamp: string;
 
+    // === CONSENT ===
+    consent?: ConsentRecord;
+
     // === PORTAL DATA ===
     name?: string;
     phone?: string;
@@ -134,23 +152,28 @@ export interface Victim {
 }
 
 export interface SessionStats {
-    count: number;
+    count: number; // Visitor ids issued so far (statistics live in ./stats)
     victims: Victim[];
     profiles: VictimProfile[];
-    deviceBreakdown: {
-        iOS: number;
-        Android: number;
-        Desktop: number;
-        Tablet: number;
-        Unknown: number;
-    };
     currentVictim?: VictimProfile;
-    currentMedia?: MediaCapture;
+    media: Record<string, MediaCapture>; // live feeds keyed by sessionId
+    consents: Record<string, ConsentRecord>; // keyed by sessionId
+    deletionCodes: Record<string, DeletionRecord>; // keyed by deletion code
+    terminatedFeeds: Record<string, string>; // sessionId -> when an operator ended the feed
+    journeys: Record<string, JourneySteps>; // sessionId -> stages reached
+}
+
+// What a deletion code erases. The statistics contribution is kept here
+// because the profile it came from may fall out of the 100-profile cap first.
+export interface DeletionRecord {
+    sessionId: string;
+    facts?: VisitorFacts;
 }
 
 // Media capture data from live webcam streaming
 export interface MediaCapture {
-    frame?: string; // Base64 JPEG of current live frame
+    frame?: string; // Base64 JPEG of current frame (JSON transport only)
+    binaryFrames?: boolean; // Frames served as MJPEG from /api/media/stream/<sessionId>
     audioLevel?: number; // 0-100 microphone level
     location?: {
         latitude: number;
@@ -162,8 +185,12 @@ export interface MediaCapture {
         microphone: boolean;
         geolocation: boolean;
     };
-    capturedAt: string;
+    capturedAt: string; // Visitor's device clock
+    receivedAt: string; // Server clock at upload - retention goes by this
     isLive?: boolean; // Indicates live stream vs static capture
+    sessionId: string; // Session that sent the frame
+    endedAt?: string; // Set when the visitor's stream has closed
+    endReason?: string; // Lifecycle point that closed it (reveal, hidden, max_duration...)
 }
 
 // ===================================
@@ -173,7 +200,6 @@ export interface MediaCapture {
 
 // Declare global type for sessions
 declare global {
-    // eslint-disable-next-line no-var
     var sirenSessions: SessionStats | undefined;
 }
 
@@ -182,20 +208,235 @@ const defaultSessions: SessionStats = {
     count: 0,
     victims: [],
     profiles: [],
-    deviceBreakdown: {
-        iOS: 0,
-        Android: 0,
-        Desktop: 0,
-        Tablet: 0,
-        Unknown: 0,
-    },
     currentVictim: undefined,
-    currentMedia: undefined,
+    media: {},
+    consents: {},
+    deletionCodes: {},
+    terminatedFeeds: {},
+    journeys: {},
 };
 
 const sessions: SessionStats = globalThis.sirenSessions || defaultSessions;
+sessions.media = sessions.media || {};
+sessions.consents = sessions.consents || {};
+sessions.deletionCodes = sessions.deletionCodes || {};
+sessions.terminatedFeeds = sessions.terminatedFeeds || {};
+sessions.journeys = sessions.journeys || {};
 globalThis.sirenSessions = sessions;
 
+// ===================================
+// PERSISTENCE AND REPLICATION
+// Every change is mirrored to the configured store (see ./sessionStore)
+// and restored on server start. The same records are shared with other
+// server processes through ./broker. Live media is shared but never persisted.
+// ===================================
+
+declare global {
+    var sirenSessionStore: SessionStore | undefined;
+}
+
+interface StoredStats {
+    count: number;
+    currentVictim?: VictimProfile;
+    visitors: VisitorStats;
+}
+
+// Changes shared with other server processes
+export type SessionsMessage =
+    | { type: 'records'; records: StoredRecord[] }  // Upserts and deletions
+    | { type: 'replace'; records: StoredRecord[] }  // Everything, after erase or purge
+    | { type: 'reset' }
+    | { type: 'sync' } // A process started and wants the current state
+    | { type: 'snapshot'; records: StoredRecord[]; media: Record<string, MediaCapture> };
+
+export type MediaMessage =
+    | { type: 'update'; media: MediaCapture }
+    | { type: 'remove'; sessionIds: string[] };
+
+const store: SessionStore = globalThis.sirenSessionStore || openStore();
+globalThis.sirenSessionStore = store;
+
+function openStore(): SessionStore {
+    const opened = createSessionStore();
+    try {
+        applyRecords(opened.load());
+    } catch (error) {
+        console.error('[Storage] Could not restore sessions:', error);
+    }
+
+    if (opened.backend !== 'memory') {
+        console.log(`[Storage] Using ${opened.backend} store at ${opened.location} (${sessions.count} visitors restored)`);
+    }
+    return opened;
+}
+
+/**
+ * Apply stored or replicated records to the in-memory state
+ */
+function applyRecords(records: StoredRecord[]): void {
+    for (const { collection, key, value } of records) {
+        switch (collection) {
+            case 'meta': {
+                const stats = value as StoredStats;
+                sessions.count = stats.count;
+                sessions.currentVictim = stats.currentVictim;
+                restoreStats(stats.visitors);
+                break;
+            }
+            case 'victims':
+                sessions.victims = sessions.victims.filter(v => String(v.id) !== key);
+                if (value !== null) sessions.victims.push(value as Victim);
+                break;
+            case 'profiles':
+                sessions.profiles = sessions.profiles.filter(p => p.sessionId !== key);
+                if (value !== null) sessions.profiles.push(value as VictimProfile);
+                break;
+            case 'deletionCodes':
+                if (value === null) {
+                    delete sessions.deletionCodes[key];
+                } else {
+                    // Stores written before codes carried facts hold just the sessionId
+                    sessions.deletionCodes[key] = typeof value === 'string' ? { sessionId: value } : value as DeletionRecord;
+                }
+                break;
+            case 'fingerprints':
+                if (value === null) {
+                    forgetFingerprint(key);
+                } else {
+                    recordFingerprint(key, value as FingerprintEntry);
+                }
+                break;
+            case 'consents':
+            case 'terminatedFeeds':
+            case 'journeys': {
+                const target = sessions[collection] as Record<string, unknown>;
+                if (value === null) {
+                    delete target[key];
+                } else {
+                    target[key] = value;
+                }
+                break;
+            }
+        }
+    }
+
+    sessions.victims.sort((a, b) => a.id - b.id);
+    sessions.profiles.sort((a, b) => a.id - b.id);
+
+    // Point currentVictim back at its profile, so later edits reach both
+    const current = sessions.currentVictim;
+    if (current) {
+        sessions.currentVictim = sessions.profiles.find(p => p.sessionId === current.sessionId) || current;
+    }
+}
+
+/**
+ * Clear everything that is persisted, then apply the given records
+ */
+function replaceRecords(records: StoredRecord[]): void {
+    sessions.count = 0;
+    sessions.victims = [];
+    sessions.profiles = [];
+    sessions.currentVictim = undefined;
+    resetStats();
+    resetFingerprints();
+    sessions.consents = {};
+    sessions.deletionCodes = {};
+    sessions.terminatedFeeds = {};
+    sessions.journeys = {};
+    applyRecords(records);
+}
+
+function statsRecord(): StoredRecord {
+    const stats: StoredStats = {
+        count: sessions.count,
+        currentVictim: sessions.currentVictim,
+        visitors: getVisitorStats(),
+    };
+    return { collection: 'meta', key: 'stats', value: stats };
+}
+
+function allRecords(): StoredRecord[] {
+    return [
+        statsRecord(),
+        ...sessions.victims.map(victim => ({ collection: 'victims' as const, key: String(victim.id), value: victim })),
+        ...sessions.profiles.map(profile => ({ collection: 'profiles' as const, key: profile.sessionId, value: profile })),
+        ...Object.entries(sessions.consents).map(([key, value]) => ({ collection: 'consents' as const, key, value })),
+        ...Object.entries(sessions.deletionCodes).map(([key, value]) => ({ collection: 'deletionCodes' as const, key, value })),
+        ...Object.entries(sessions.terminatedFeeds).map(([key, value]) => ({ collection: 'terminatedFeeds' as const, key, value })),
+        ...Object.entries(sessions.journeys).map(([key, value]) => ({ collection: 'journeys' as const, key, value })),
+        ...getFingerprints().map(([key, value]) => ({ collection: 'fingerprints' as const, key, value })),
+    ];
+}
+
+/**
+ * Save and share changed records. A storage failure is logged but never
+ * breaks the exhibit.
+ */
+function persist(...records: StoredRecord[]): void {
+    getBroker().publish('sessions', { type: 'records', records });
+    try {
+        store.write(records);
+    } catch (error) {
+        console.error('[Storage] Write failed:', error);
+    }
+}
+
+/**
+ * Rewrite the store from memory. Used after deletions, so erased and
+ * expired data does not linger in an append-only file.
+ */
+function persistAll(): void {
+    const records = allRecords();
+    getBroker().publish('sessions', { type: 'replace', records });
+    try {
+        store.replaceAll(records);
+    } catch (error) {
+        console.error('[Storage] Rewrite failed:', error);
+    }
+}
+
+// Changes made by other processes - already saved by the process that made them
+getBroker().subscribe('sessions', (message) => {
+    switch (message.type) {
+        case 'records':
+            applyRecords(message.records);
+            break;
+        case 'replace':
+            replaceRecords(message.records);
+            break;
+        case 'reset':
+            clearSessions();
+            break;
+        case 'sync':
+            if (getBroker().isLeader()) {
+                getBroker().publish('sessions', { type: 'snapshot', records: allRecords(), media: sessions.media });
+            }
+            break;
+        case 'snapshot':
+            replaceRecords(message.records);
+            sessions.media = { ...message.media, ...sessions.media };
+            break;
+    }
+});
+
+getBroker().subscribe('media', (message) => {
+    switch (message.type) {
+        case 'update':
+            sessions.media[message.media.sessionId] = message.media;
+            if (message.media.endedAt) dropFrames(message.media.sessionId);
+            break;
+        case 'remove':
+            for (const sessionId of message.sessionIds) {
+                delete sessions.media[sessionId];
+                dropFrames(sessionId);
+            }
+            break;
+    }
+});
+
+getBroker().publish('sessions', { type: 'sync' });
+
 // ===================================
 // UTILITY FUNCTIONS
 // ===================================
@@ -204,6 +445,34 @@ function generateSessionId(): string {
     return `siren_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Unambiguous characters only (no 0/O, 1/I/L) so codes are easy to read aloud
+const DELETION_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const DELETION_CODE_LENGTH = 6;
+
+function generateDeletionCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(DELETION_CODE_LENGTH));
+    return Array.from(bytes, byte => DELETION_CODE_ALPHABET[byte % DELETION_CODE_ALPHABET.length]).join('');
+}
+
+export function normalizeDeletionCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function deviceKey(profile: VictimProfile): DeviceKey {
+    const deviceType = profile.device.type as DeviceKey;
+    return DEVICE_KEYS.includes(deviceType) ? deviceType : 'Unknown';
+}
+
+// What a profile contributes to the statistics in ./stats
+function profileFacts(profile: VictimProfile): VisitorFacts {
+    return {
+        timestamp: profile.timestamp,
+        device: deviceKey(profile),
+        browser: profile.browser.name,
+        os: profile.device.os,
+    };
+}
+
 export function parseDevice(userAgent: string): Victim['device'] {
     const ua = userAgent.toLowerCase();
     if (ua.includes('iphone') || ua.includes('ipad') || ua.includes('ipod')) return 'iOS';
@@ -268,6 +537,127 @@ export async function fetchIPGeolocation(ip: string): Promise<IPGeolocation | un
     }
 }
 
+// ===================================
+// CONSENT
+// ===================================
+
+/**
+ * Record the visitor's answer to the exhibit notice.
+ * Continues the session the portal's journey beacon (or an earlier answer)
+ * started; starts a new one for a sessionId the server did not issue.
+ */
+export function recordConsent(granted: boolean, sessionId?: string): { sessionId: string; consent: ConsentRecord } {
+    const id = sessionId && (sessions.consents[sessionId] || sessions.journeys[sessionId])
+        ? sessionId
+        : generateSessionId();
+    const previous = sessions.consents[id];
+    const consent: ConsentRecord = {
+        granted,
+        decidedAt: new Date().toISOString(),
+        permissions: previous?.permissions,
+    };
+
+    saveConsent(id, consent, previous);
+    return { sessionId: id, consent };
+}
+
+/**
+ * Note the permissions a session's stream reports (see updateMedia).
+ * Each grant counts once per session; a later denial does not undo it.
+ */
+function recordGrants(sessionId: string, grants: PermissionGrants): void {
+    const previous = sessions.consents[sessionId];
+    if (!previous) return;
+
+    const held = previous.permissions;
+    const merged: PermissionGrants = {
+        camera: !!held?.camera || grants.camera,
+        microphone: !!held?.microphone || grants.microphone,
+        geolocation: !!held?.geolocation || grants.geolocation,
+    };
+    if (PERMISSION_KEYS.every(key => merged[key] === !!held?.[key])) return;
+
+    saveConsent(sessionId, { ...previous, permissions: merged }, previous);
+}
+
+function saveConsent(sessionId: string, consent: ConsentRecord, previous: ConsentRecord | undefined): void {
+    sessions.consents[sessionId] = consent;
+    recordPermissions(permissionOutcome(consent), previous && permissionOutcome(previous));
+
+    // Keep the profile in sync if the visitor already submitted the portal form
+    const profile = sessions.profiles.find(p => p.sessionId === sessionId);
+    if (profile) profile.consent = consent;
+
+    persist(
+        statsRecord(),
+        { collection: 'consents', key: sessionId, value: consent },
+        ...(profile ? [{ collection: 'profiles' as const, key: sessionId, value: profile }] : [])
+    );
+}
+
+// What a consent contributes to the permission counts in ./stats
+function permissionOutcome(consent: ConsentRecord): PermissionOutcome {
+    return {
+        accepted: consent.granted,
+        camera: !!consent.permissions?.camera,
+        microphone: !!consent.permissions?.microphone,
+        geolocation: !!consent.permissions?.geolocation,
+    };
+}
+
+export function getConsent(sessionId: string | undefined): ConsentRecord | undefined {
+    if (!sessionId) return undefined;
+    return sessions.consents[sessionId];
+}
+
+export function hasMediaConsent(sessionId: string | undefined): boolean {
+    return getConsent(sessionId)?.granted === true;
+}
+
+// ===================================
+// JOURNEY
+// Stages reached per session, counted into the funnel in ./stats
+// ===================================
+
+/**
+ * Record a visitor reaching a stage (POST /api/journey). Sessions the
+ * server did not issue get a new one. Returns the sessionId used.
+ */
+export function recordJourneyStage(sessionId: string | undefined, stage: JourneyStage): string {
+    const id = sessionId && (sessions.consents[sessionId] || sessions.journeys[sessionId])
+        ? sessionId
+        : generateSessionId();
+
+    const steps = sessions.journeys[id] || {};
+    if (steps[stage]) return id; // Reloads and back navigation count once
+
+    const now = new Date();
+
+    // The visitor leaves the furthest stage reached before this one
+    const index = JOURNEY_STAGES.indexOf(stage);
+    const previous = JOURNEY_STAGES.slice(0, index).reverse().find(s => steps[s]);
+    const previousStep = previous ? steps[previous] : undefined;
+
+    let left: { stage: JourneyStage; durationMs: number } | undefined;
+    if (previous && previousStep && previousStep.durationMs === undefined) {
+        previousStep.durationMs = Math.max(0, now.getTime() - new Date(previousStep.enteredAt).getTime());
+        left = { stage: previous, durationMs: previousStep.durationMs };
+    }
+
+    steps[stage] = { enteredAt: now.toISOString() };
+    sessions.journeys[id] = steps;
+    recordStage(stage, left);
+
+    persist(statsRecord(), { collection: 'journeys', key: id, value: steps });
+    return id;
+}
+
+function journeyStart(steps: JourneySteps): string | undefined {
+    return Object.values(steps)
+        .map(step => step.enteredAt)
+        .sort()[0];
+}
+
 // ===================================
 // ADD VICTIM (Extended)
 // ===================================
@@ -275,9 +665,12 @@ export async function fetchIPGeolocation(ip: string): Promise<IPGeolocation | un
 export async function addVictimWithProfile(
     fingerprint: Fingerprint,
     ip: string,
-    formData?: { name?: string; phone?: string; email?: string }
+    formData?: { name?: string; phone?: string; email?: string },
+    consentSessionId?: string
 ): Promise<VictimProfile> {
-    const sessionId = generateSessionId();
+    // Reuse the session started by the consent step, if any
+    const consent = getConsent(consentSessionId);
+    const sessionId = consent && consentSessionId ? consentSessionId : generateSessionId();
     const timestamp = new Date().toISOString();
 
     // Fetch IP geolocation
@@ -287,6 +680,7 @@ export async function addVictimWithProfile(
         id: ++sessions.count,
         sessionId,
         timestamp,
+        consent,
         name: formData?.name || undefined,
         phone: formData?.phone || undefined,
         email: formData?.email || undefined,
@@ -357,17 +751,17 @@ export async function addVictimWithProfile(
     sessions.profiles.push(profile);
     sessions.currentVictim = profile;
 
-    // Update device breakdown
-    const deviceType = profile.device.type as keyof typeof sessions.deviceBreakdown;
-    if (deviceType in sessions.deviceBreakdown) {
-        sessions.deviceBreakdown[deviceType]++;
-    } else {
-        sessions.deviceBreakdown.Unknown++;
-    }
+    recordVisitor(profileFacts(profile));
+
+    // Uniqueness counts every visitor today, not just the profiles kept below
+    const attributes = fingerprintOf(profile);
+    recordFingerprint(sessionId, attributes);
 
     // Keep only last 100 profiles
+    const dropped: StoredRecord[] = [];
     if (sessions.profiles.length > 100) {
-        sessions.profiles.shift();
+        const removed = sessions.profiles.shift();
+        if (removed) dropped.push({ collection: 'profiles', key: removed.sessionId, value: null });
     }
 
     // Create legacy victim for backward compatibility
@@ -385,9 +779,18 @@ export async function addVictimWithProfile(
 
     sessions.victims.push(legacyVictim);
     if (sessions.victims.length > 100) {
-        sessions.victims.shift();
+        const removed = sessions.victims.shift();
+        if (removed) dropped.push({ collection: 'victims', key: String(removed.id), value: null });
     }
 
+    persist(
+        statsRecord(),
+        { collection: 'profiles', key: sessionId, value: profile },
+        { collection: 'victims', key: String(legacyVictim.id), value: legacyVictim },
+        { collection: 'fingerprints', key: sessionId, value: attributes },
+        ...dropped
+    );
+
     return profile;
 }
 
@@ -413,11 +816,14 @@ export function addVictim(
     };
 
     sessions.victims.push(victim);
-    sessions.deviceBreakdown[device]++;
+    // The user agent alone only tells the OS for phones
+    const os = device === 'iOS' || device === 'Android' ? device : 'Unknown';
+    recordVisitor({ timestamp: victim.timestamp, device, browser, os });
 
+    const dropped: StoredRecord[] = [];
     if (sessions.victims.length > 100) {
         const removed = sessions.victims.shift();
-        if (removed) sessions.deviceBreakdown[removed.device]--;
+        if (removed) dropped.push({ collection: 'victims', key: String(removed.id), value: null });
     }
 
     // Create a partial profile for currentVictim display
@@ -490,12 +896,91 @@ export function addVictim(
 
     sessions.currentVictim = partialProfile;
 
+    persist(
+        statsRecord(),
+        { collection: 'victims', key: String(victim.id), value: victim },
+        ...dropped
+    );
+
     // Notify specifically for the current victim panel
     notifyCurrentVictim();
 
     return victim;
 }
 
+// ===================================
+// VISITOR DATA DELETION
+// ===================================
+
+/**
+ * Issue the short code shown on /reveal that lets a visitor erase their data
+ */
+export function issueDeletionCode(sessionId: string): string {
+    let code = generateDeletionCode();
+    while (sessions.deletionCodes[code]) {
+        code = generateDeletionCode();
+    }
+    const profile = sessions.profiles.find(p => p.sessionId === sessionId);
+    const record: DeletionRecord = { sessionId, facts: profile && profileFacts(profile) };
+    sessions.deletionCodes[code] = record;
+    persist({ collection: 'deletionCodes', key: code, value: record });
+    return code;
+}
+
+export interface ErasedVisitor {
+    sessionId: string;
+    profile?: VictimProfile; // Undefined if the profile cap or retention already dropped it
+}
+
+/**
+ * Erase everything stored about the visitor holding this deletion code:
+ * profile, legacy victim entry, consent, journey, media, buffered dashboard
+ * events, statistics contributions and uniqueness attributes.
+ * Returns what was erased, or undefined if the code is unknown.
+ */
+export function eraseVisitor(code: string): ErasedVisitor | undefined {
+    const normalized = normalizeDeletionCode(code);
+    const record = sessions.deletionCodes[normalized];
+    if (!record) return undefined;
+
+    const { sessionId } = record;
+    delete sessions.deletionCodes[normalized];
+
+    const consent = sessions.consents[sessionId];
+    if (consent) {
+        delete sessions.consents[sessionId];
+        forgetPermissions(permissionOutcome(consent));
+    }
+
+    const journey = sessions.journeys[sessionId];
+    if (journey) {
+        delete sessions.journeys[sessionId];
+        forgetJourney(journey);
+    }
+
+    const profile = sessions.profiles.find(p => p.sessionId === sessionId);
+    if (profile) {
+        sessions.profiles = sessions.profiles.filter(p => p !== profile);
+        sessions.victims = sessions.victims.filter(v => v.id !== profile.id);
+    }
+
+    // Even when the profile itself is long gone
+    const facts = record.facts || (profile && profileFacts(profile));
+    if (facts) forgetVisitor(facts);
+    forgetFingerprint(sessionId);
+
+    if (sessions.currentVictim?.sessionId === sessionId) {
+        sessions.currentVictim = undefined;
+    }
+    delete sessions.media[sessionId];
+    dropFrames(sessionId);
+    getBroker().publish('media', { type: 'remove', sessionIds: [sessionId] });
+    dropBufferedEvents(sessionId, profile?.id);
+    persistAll();
+
+    return { sessionId, profile };
+}
+
 // ===================================
 // GETTERS
 // ===================================
@@ -516,68 +1001,184 @@ export function getRecentVictims(count: number = 10): Victim[] {
     return sessions.victims.slice(-count).reverse();
 }
 
-export function resetSessions(): void {
-    sessions.count = 0;
-    sessions.victims = [];
-    sessions.profiles = [];
-    sessions.deviceBreakdown = { iOS: 0, Android: 0, Desktop: 0, Tablet: 0, Unknown: 0 };
-    sessions.currentVictim = undefined;
-}
-
 // ===================================
-// SSE CLIENT MANAGEMENT
-// Uses globalThis to persist across Next.js API route instances
+// DATA PURGING
+// Used by the retention sweeper (lib/retention.ts)
 // ===================================
 
-// Declare global type for TypeScript
-declare global {
-    // eslint-disable-next-line no-var
-    var sseClients: Set<ReadableStreamDefaultController> | undefined;
+export interface PurgeCutoffs {
+    frames?: number;   // Drop media captured before this time (epoch ms)
+    pii?: number;      // Strip name/phone/email/IP data recorded before this time
+    profiles?: number; // Drop whole profiles, legacy victims and consents before this time
 }
 
-// Use globalThis to persist clients across hot reloads and API route instances
-const clients: Set<ReadableStreamDefaultController> = globalThis.sseClients || new Set();
-globalThis.sseClients = clients;
+export interface PurgeResult {
+    frames: number;
+    pii: number;
+    profiles: number;
+}
 
-export function addClient(controller: ReadableStreamDefaultController): void {
-    clients.add(controller);
-    console.log(`[SSE] Client connected. Total clients: ${clients.size}`);
+function isBefore(timestamp: string, cutoff: number | undefined): boolean {
+    return cutoff !== undefined && new Date(timestamp).getTime() < cutoff;
 }
 
-export function removeClient(controller: ReadableStreamDefaultController): void {
-    clients.delete(controller);
-    console.log(`[SSE] Client disconnected. Total clients: ${clients.size}`);
+function stripProfilePII(profile: VictimProfile): boolean {
+    if (!profile.name && !profile.phone && !profile.email && !profile.ipGeo) return false;
+    profile.name = undefined;
+    profile.phone = undefined;
+    profile.email = undefined;
+    profile.ipGeo = undefined;
+    return true;
 }
 
-export function notifyClients(victim: Victim | VictimProfile): void {
-    const data = JSON.stringify(victim);
-    const message = `data: ${data}\n\n`;
+function stripVictimPII(victim: Victim): boolean {
+    if (!victim.name && !victim.phone && !victim.email && victim.ip === 'Redacted') return false;
+    victim.name = undefined;
+    victim.phone = undefined;
+    victim.email = undefined;
+    victim.ip = 'Redacted';
+    return true;
+}
+
+/**
+ * Remove data older than the given cutoffs, in memory and in the store.
+ * Aggregate statistics (./stats) are never touched.
+ * Returns how many items of each data class were purged.
+ */
+export function purgeExpiredData(cutoffs: PurgeCutoffs): PurgeResult {
+    const result: PurgeResult = { frames: 0, pii: 0, profiles: 0 };
+    let storeChanged = false; // Anything besides media, which is never persisted
+
+    // Frames
+    const expiredFeeds = Object.values(sessions.media)
+        .filter(media => isBefore(media.receivedAt, cutoffs.frames))
+        .map(media => media.sessionId);
+    for (const sessionId of expiredFeeds) {
+        delete sessions.media[sessionId];
+        dropFrames(sessionId);
+    }
+    result.frames += expiredFeeds.length;
+    if (expiredFeeds.length > 0) {
+        getBroker().publish('media', { type: 'remove', sessionIds: expiredFeeds });
+        broadcast({ type: 'media_removed', sessionIds: expiredFeeds });
+    }
 
-    console.log(`[SSE] Notifying ${clients.size} clients of new victim`);
+    // Uniqueness attributes only count for the day they were recorded on
+    const fingerprintCutoff = Math.max(startOfToday(), cutoffs.profiles ?? -Infinity);
+    storeChanged ||= forgetFingerprintsBefore(fingerprintCutoff).length > 0;
+
+    // Whole profiles
+    if (cutoffs.profiles !== undefined) {
+        const keptProfiles = sessions.profiles.filter(p => !isBefore(p.timestamp, cutoffs.profiles));
+        const keptVictims = sessions.victims.filter(v => !isBefore(v.timestamp, cutoffs.profiles));
+        result.profiles += sessions.profiles.length - keptProfiles.length;
+        storeChanged ||= keptProfiles.length < sessions.profiles.length || keptVictims.length < sessions.victims.length;
+        sessions.profiles = keptProfiles;
+        sessions.victims = keptVictims;
+
+        for (const [sessionId, consent] of Object.entries(sessions.consents)) {
+            if (isBefore(consent.decidedAt, cutoffs.profiles)) {
+                delete sessions.consents[sessionId];
+                storeChanged = true;
+            }
+        }
 
-    clients.forEach((controller) => {
-        try {
-            controller.enqueue(new TextEncoder().encode(message));
-        } catch {
-            clients.delete(controller);
+        for (const [sessionId, terminatedAt] of Object.entries(sessions.terminatedFeeds)) {
+            if (isBefore(terminatedAt, cutoffs.profiles)) {
+                delete sessions.terminatedFeeds[sessionId];
+                storeChanged = true;
+            }
         }
-    });
-}
 
-export function notifyCurrentVictim(): void {
-    if (sessions.currentVictim) {
-        const data = JSON.stringify({ type: 'current_victim', profile: sessions.currentVictim });
-        const message = `data: ${data}\n\n`;
+        // The funnel keeps their counts
+        for (const [sessionId, steps] of Object.entries(sessions.journeys)) {
+            const start = journeyStart(steps);
+            if (!start || isBefore(start, cutoffs.profiles)) {
+                delete sessions.journeys[sessionId];
+                storeChanged = true;
+            }
+        }
+
+        // Deletion codes expire with the visit they were issued for. The
+        // profile cap may have dropped the profile sooner; the code still
+        // takes the visitor out of the statistics until then.
+        for (const [code, { sessionId, facts }] of Object.entries(sessions.deletionCodes)) {
+            const expired = facts
+                ? isBefore(facts.timestamp, cutoffs.profiles)
+                : !sessions.profiles.some(p => p.sessionId === sessionId);
+            if (expired) {
+                delete sessions.deletionCodes[code];
+                storeChanged = true;
+            }
+        }
 
-        console.log(`[SSE] Notifying ${clients.size} clients of current victim update`);
+        if (sessions.currentVictim && isBefore(sessions.currentVictim.timestamp, cutoffs.profiles)) {
+            sessions.currentVictim = undefined;
+            storeChanged = true;
+        }
+    }
 
-        clients.forEach((controller) => {
-            try {
-                controller.enqueue(new TextEncoder().encode(message));
-            } catch {
-                clients.delete(controller);
+    // PII on what remains
+    if (cutoffs.pii !== undefined) {
+        for (const profile of sessions.profiles) {
+            if (isBefore(profile.timestamp, cutoffs.pii) && stripProfilePII(profile)) {
+                result.pii++;
+                storeChanged = true;
             }
-        });
+        }
+        for (const victim of sessions.victims) {
+            if (isBefore(victim.timestamp, cutoffs.pii) && stripVictimPII(victim)) {
+                storeChanged = true;
+            }
+        }
+
+        // Legacy current victim is not part of profiles
+        const current = sessions.currentVictim;
+        if (current && !sessions.profiles.includes(current) && isBefore(current.timestamp, cutoffs.pii)) {
+            storeChanged ||= stripProfilePII(current);
+        }
+    }
+
+    if (storeChanged) persistAll();
+
+    return result;
+}
+
+export function resetSessions(): void {
+    clearSessions();
+    getBroker().publish('sessions', { type: 'reset' });
+    try {
+        store.replaceAll([]);
+    } catch (error) {
+        console.error('[Storage] Rewrite failed:', error);
+    }
+}
+
+// Drop all state held by this process
+function clearSessions(): void {
+    replaceRecords([]);
+    sessions.media = {};
+    clearFrames();
+    clearEventBuffer();
+}
+
+// ===================================
+// ADMIN NOTIFICATIONS
+// Typed events on the admin SSE stream (see ./events and ./eventBus)
+// ===================================
+
+export function notifyClients(victim: Victim | VictimProfile): void {
+    const sent = 'sessionId' in victim
+        ? broadcast({ type: 'new_profile', profile: victim })
+        : broadcast({ type: 'new_victim', victim });
+
+    console.log(`[SSE] Notified ${sent.clients} clients of new victim`);
+}
+
+export function notifyCurrentVictim(): void {
+    if (sessions.currentVictim) {
+        const sent = broadcast({ type: 'current_victim', profile: sessions.currentVictim });
+        console.log(`[SSE] Notified ${sent.clients} clients of current victim update`);
     }
 }
 
@@ -586,29 +1187,84 @@ export function notifyCurrentVictim(): void {
 // ===================================
 
 export function updateMedia(media: MediaCapture): void {
-    sessions.currentMedia = media;
-    notifyMediaUpdate();
+    sessions.media[media.sessionId] = media;
+    recordGrants(media.sessionId, media.permissions);
+    getBroker().publish('media', { type: 'update', media });
+    notifyMediaUpdate(media.sessionId);
 }
 
-export function notifyMediaUpdate(): void {
-    if (sessions.currentMedia) {
-        const data = JSON.stringify({ type: 'media_update', media: sessions.currentMedia });
-        const message = `data: ${data}\n\n`;
-
-        clients.forEach((controller) => {
-            try {
-                controller.enqueue(new TextEncoder().encode(message));
-            } catch {
-                clients.delete(controller);
-            }
-        });
+export function notifyMediaUpdate(sessionId: string): void {
+    const media = sessions.media[sessionId];
+    if (media) {
+        const sent = broadcast({ type: 'media_update', media });
+        if (media.frame) {
+            recordEgress('json', sent.bytes, sent.clients);
+        }
     }
 }
 
-export function getCurrentMedia(): MediaCapture | undefined {
-    return sessions.currentMedia;
+/**
+ * Mark a session's feed as closed. The last frame is dropped so the
+ * dashboard shows "feed closed" rather than a frozen face.
+ */
+export function endMedia(sessionId: string, reason: string): void {
+    const media = sessions.media[sessionId];
+    if (!media) return;
+
+    sessions.media[sessionId] = {
+        ...media,
+        frame: undefined,
+        audioLevel: undefined,
+        isLive: false,
+        endedAt: new Date().toISOString(),
+        endReason: reason,
+    };
+    getBroker().publish('media', { type: 'update', media: sessions.media[sessionId] });
+    dropFrames(sessionId);
+    notifyMediaUpdate(sessionId);
 }
 
-export function clearMedia(): void {
-    sessions.currentMedia = undefined;
+/**
+ * Operator kill switch - end a visitor's feed from the dashboard.
+ * The visitor's next /api/media request is answered with a terminate command.
+ */
+export function terminateFeed(sessionId: string): void {
+    sessions.terminatedFeeds[sessionId] = new Date().toISOString();
+    persist({ collection: 'terminatedFeeds', key: sessionId, value: sessions.terminatedFeeds[sessionId] });
+    endMedia(sessionId, 'operator');
+}
+
+export function isFeedTerminated(sessionId: string): boolean {
+    return sessionId in sessions.terminatedFeeds;
+}
+
+export function getMedia(sessionId: string): MediaCapture | undefined {
+    return sessions.media[sessionId];
+}
+
+/**
+ * Number of visitors currently streaming
+ */
+export function getLiveMediaCount(): number {
+    return Object.values(sessions.media).filter(media => media.isLive && !media.endedAt).length;
+}
+
+/**
+ * All feeds still held, most recently updated first
+ */
+export function getAllMedia(): MediaCapture[] {
+    return Object.values(sessions.media)
+        .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+}
+
+export function clearMedia(sessionId?: string): void {
+    getBroker().publish('media', { type: 'remove', sessionIds: sessionId ? [sessionId] : Object.keys(sessions.media) });
+
+    if (sessionId) {
+        delete sessions.media[sessionId];
+        dropFrames(sessionId);
+    } else {
+        sessions.media = {};
+        clearFrames();
+    }
 }
@@ -0,0 +1,306 @@
+/**
+ * PROJECT SIREN - Visitor Statistics
+ *
+ * Owns the aggregate counters shown on the dashboard: total visitors,
+ * devices, browsers and operating systems, visitors per 5-minute bucket,
+ * the journey funnel (./journey) and the browser permissions visitors
+ * granted. Counters cover the whole exhibition - the cap on recent
+ * visitors and the retention sweeper never change them. Only a visitor
+ * erasing their own data removes their contribution.
+ * GET /api/stats returns these counters as `StatsResponse.visitors`.
+ */
+
+import { broadcast } from './eventBus';
+import { JOURNEY_STAGES, JourneyStage, JourneySteps } from './journey';
+import type { Victim, VictimProfile } from './sessions';
+import type { RetentionStatus } from './retention';
+import type { PiiMode } from './redaction';
+
+// ===================================
+// TYPES
+// ===================================
+
+export type DeviceKey = 'iOS' | 'Android' | 'Desktop' | 'Tablet' | 'Unknown';
+
+export const DEVICE_KEYS: DeviceKey[] = ['iOS', 'Android', 'Desktop', 'Tablet', 'Unknown'];
+
+// Length of one time bucket
+export const BUCKET_MS = 5 * 60 * 1000;
+
+// Buckets kept (one exhibition day)
+const MAX_BUCKETS = (24 * 60 * 60 * 1000) / BUCKET_MS;
+
+export interface StatsBucket {
+    start: string; // ISO time the 5-minute interval starts
+    visitors: number;
+}
+
+// One stage of the journey funnel
+export interface StageCounter {
+    reached: number;  // Visitors who got to this stage
+    moved: number;    // ...and went on to a later stage
+    totalMs: number;  // Time those who moved on spent here
+}
+
+// What one session's browser granted to the fake captcha
+export interface PermissionGrants {
+    camera: boolean;
+    microphone: boolean;
+    geolocation: boolean;
+}
+
+export type PermissionKey = keyof PermissionGrants;
+
+export const PERMISSION_KEYS: PermissionKey[] = ['camera', 'microphone', 'geolocation'];
+
+// One session's answer to the exhibit notice and what its browser granted after
+export interface PermissionOutcome extends PermissionGrants {
+    accepted: boolean;
+}
+
+// Sessions per outcome, one count each
+export interface PermissionStats extends Record<PermissionKey, number> {
+    sessions: number; // Visitors who answered the exhibit notice
+    accepted: number; // ...and accepted it, so their browser asked for access
+}
+
+export interface VisitorStats {
+    total: number;
+    devices: Record<DeviceKey, number>;
+    browsers: Record<string, number>;
+    os: Record<string, number>;
+    bucketMs: number;
+    buckets: StatsBucket[]; // Oldest first; intervals without visitors are left out
+    funnel: Record<JourneyStage, StageCounter>;
+    permissions: PermissionStats;
+}
+
+// What one visitor contributes to the counters
+export interface VisitorFacts {
+    timestamp: string;
+    device: DeviceKey;
+    browser: string;
+    os: string;
+}
+
+/**
+ * Response of GET /api/stats - read by the dashboard as is
+ */
+export interface StatsResponse {
+    visitors: VisitorStats;
+    recentVictims: (Victim | VictimProfile)[]; // Last 20, oldest first
+    currentVictim?: VictimProfile;
+    retention: RetentionStatus;
+    piiMode: PiiMode;
+    scenarioId: string; // Scenario new visitors get (see ./activeScenario)
+}
+
+/**
+ * Response of GET /api/awareness - anonymous counts for the presenter screen
+ */
+export interface AwarenessResponse {
+    permissions: PermissionStats;
+}
+
+// ===================================
+// IN-MEMORY STORAGE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenStats: VisitorStats | undefined;
+}
+
+function emptyFunnel(): Record<JourneyStage, StageCounter> {
+    return Object.fromEntries(
+        JOURNEY_STAGES.map(stage => [stage, { reached: 0, moved: 0, totalMs: 0 }])
+    ) as Record<JourneyStage, StageCounter>;
+}
+
+function emptyPermissions(): PermissionStats {
+    return { sessions: 0, accepted: 0, camera: 0, microphone: 0, geolocation: 0 };
+}
+
+function emptyStats(): VisitorStats {
+    return {
+        total: 0,
+        devices: { iOS: 0, Android: 0, Desktop: 0, Tablet: 0, Unknown: 0 },
+        browsers: {},
+        os: {},
+        bucketMs: BUCKET_MS,
+        buckets: [],
+        funnel: emptyFunnel(),
+        permissions: emptyPermissions(),
+    };
+}
+
+const stats: VisitorStats = globalThis.sirenStats || emptyStats();
+stats.funnel = stats.funnel || emptyFunnel();
+stats.permissions = stats.permissions || emptyPermissions();
+globalThis.sirenStats = stats;
+
+// ===================================
+// COUNTING
+// ===================================
+
+function bucketStart(timestamp: string): string {
+    const time = new Date(timestamp).getTime();
+    return new Date(time - (time % BUCKET_MS)).toISOString();
+}
+
+function adjust(counts: Record<string, number>, key: string, delta: number): void {
+    const next = (counts[key] || 0) + delta;
+    if (next > 0) {
+        counts[key] = next;
+    } else {
+        delete counts[key];
+    }
+}
+
+function adjustBucket(timestamp: string, delta: number): void {
+    const start = bucketStart(timestamp);
+    const bucket = stats.buckets.find(b => b.start === start);
+
+    if (bucket) {
+        bucket.visitors = Math.max(0, bucket.visitors + delta);
+        if (bucket.visitors === 0) stats.buckets = stats.buckets.filter(b => b !== bucket);
+    } else if (delta > 0) {
+        stats.buckets.push({ start, visitors: delta });
+        stats.buckets.sort((a, b) => a.start.localeCompare(b.start));
+        if (stats.buckets.length > MAX_BUCKETS) {
+            stats.buckets.splice(0, stats.buckets.length - MAX_BUCKETS);
+        }
+    }
+}
+
+function apply(facts: VisitorFacts, delta: 1 | -1): void {
+    stats.total = Math.max(0, stats.total + delta);
+    stats.devices[facts.device] = Math.max(0, stats.devices[facts.device] + delta);
+    adjust(stats.browsers, facts.browser || 'Unknown', delta);
+    adjust(stats.os, facts.os || 'Unknown', delta);
+    adjustBucket(facts.timestamp, delta);
+    notifyStats();
+}
+
+function notifyStats(): void {
+    broadcast({ type: 'stats_update', stats: getVisitorStats() });
+}
+
+/**
+ * Count a newly tracked visitor
+ */
+export function recordVisitor(facts: VisitorFacts): void {
+    apply(facts, 1);
+}
+
+/**
+ * Remove an erased visitor's contribution
+ */
+export function forgetVisitor(facts: VisitorFacts): void {
+    apply(facts, -1);
+}
+
+// ===================================
+// JOURNEY FUNNEL
+// ===================================
+
+/**
+ * Count a visitor reaching a stage. `left` is the earlier stage they
+ * moved on from, with the time they spent there.
+ */
+export function recordStage(stage: JourneyStage, left?: { stage: JourneyStage; durationMs: number }): void {
+    stats.funnel[stage].reached++;
+    if (left) {
+        stats.funnel[left.stage].moved++;
+        stats.funnel[left.stage].totalMs += left.durationMs;
+    }
+    notifyStats();
+}
+
+/**
+ * Remove an erased visitor's journey from the funnel
+ */
+export function forgetJourney(steps: JourneySteps): void {
+    for (const stage of JOURNEY_STAGES) {
+        const step = steps[stage];
+        if (!step) continue;
+
+        const counter = stats.funnel[stage];
+        counter.reached = Math.max(0, counter.reached - 1);
+        if (step.durationMs !== undefined) {
+            counter.moved = Math.max(0, counter.moved - 1);
+            counter.totalMs = Math.max(0, counter.totalMs - step.durationMs);
+        }
+    }
+    notifyStats();
+}
+
+// ===================================
+// PERMISSIONS
+// ===================================
+
+function applyOutcome(outcome: PermissionOutcome, delta: 1 | -1): void {
+    const counts = stats.permissions;
+    counts.sessions = Math.max(0, counts.sessions + delta);
+    if (outcome.accepted) counts.accepted = Math.max(0, counts.accepted + delta);
+    for (const key of PERMISSION_KEYS) {
+        if (outcome[key]) counts[key] = Math.max(0, counts[key] + delta);
+    }
+}
+
+/**
+ * Count a session's permission outcome, replacing its `previous` one
+ * when the visitor answered again or their browser granted more
+ */
+export function recordPermissions(outcome: PermissionOutcome, previous?: PermissionOutcome): void {
+    if (previous) applyOutcome(previous, -1);
+    applyOutcome(outcome, 1);
+    notifyStats();
+}
+
+/**
+ * Remove an erased visitor's permission outcome
+ */
+export function forgetPermissions(outcome: PermissionOutcome): void {
+    applyOutcome(outcome, -1);
+    notifyStats();
+}
+
+// ===================================
+// GETTERS / PERSISTENCE
+// ===================================
+
+export function getVisitorStats(): VisitorStats {
+    return {
+        ...stats,
+        devices: { ...stats.devices },
+        browsers: { ...stats.browsers },
+        os: { ...stats.os },
+        buckets: stats.buckets.map(bucket => ({ ...bucket })),
+        funnel: Object.fromEntries(
+            JOURNEY_STAGES.map(stage => [stage, { ...stats.funnel[stage] }])
+        ) as Record<JourneyStage, StageCounter>,
+        permissions: { ...stats.permissions },
+    };
+}
+
+/**
+ * Replace the counters with saved or replicated ones (see ./sessions)
+ */
+export function restoreStats(saved: VisitorStats | undefined): void {
+    const empty = emptyStats();
+    stats.total = saved?.total ?? 0;
+    stats.devices = { ...empty.devices, ...saved?.devices };
+    stats.browsers = { ...saved?.browsers };
+    stats.os = { ...saved?.os };
+    stats.buckets = (saved?.buckets ?? []).map(bucket => ({ ...bucket }));
+    stats.funnel = empty.funnel;
+    for (const stage of JOURNEY_STAGES) {
+        Object.assign(stats.funnel[stage], saved?.funnel?.[stage]);
+    }
+    stats.permissions = { ...empty.permissions, ...saved?.permissions };
+}
+
+export function resetStats(): void {
+    restoreStats(undefined);
+}
@@ -0,0 +1,162 @@
+/**
+ * PROJECT SIREN - Process Supervisor
+ *
+ * Keeps the exhibition's server processes running for `siren start`
+ * (bin/siren.ts): starts each one, restarts it when it crashes - waiting
+ * longer after each crash in a row - and merges their output into one
+ * log, every line prefixed with the time and the process name.
+ */
+
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+import readline from 'readline';
+
+// ===================================
+// CONFIGURATION
+// ===================================
+
+const FIRST_RESTART_DELAY_MS = 1000;
+const MAX_RESTART_DELAY_MS = 30 * 1000;
+
+// A process that ran this long before exiting was not crash-looping
+const STABLE_AFTER_MS = 60 * 1000;
+
+// How long a process gets to exit on its own before it is killed
+const STOP_TIMEOUT_MS = 5000;
+
+export interface ServiceSpec {
+    name: string;
+    command: string;
+    args: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+}
+
+export interface Supervisor {
+    start(): void;
+    // Stop every process and stop restarting them
+    stop(): Promise<void>;
+    // Current process id per service, for `siren stop`
+    pids(): Record<string, number>;
+}
+
+// ===================================
+// COMBINED LOG
+// ===================================
+
+const COLORS = ['\x1b[36m', '\x1b[35m', '\x1b[33m', '\x1b[32m'];
+const RESET = '\x1b[0m';
+const useColor = process.stdout.isTTY;
+
+const width = (names: string[]) => Math.max(...names.map(name => name.length));
+
+export function createLogger(names: string[]) {
+    const pad = width(names);
+
+    return (name: string, line: string) => {
+        const time = new Date().toLocaleTimeString();
+        const label = `[${name}]`.padEnd(pad + 2);
+        const color = COLORS[names.indexOf(name) % COLORS.length];
+        console.log(useColor && color ? `${time} ${color}${label}${RESET} ${line}` : `${time} ${label} ${line}`);
+    };
+}
+
+// ===================================
+// PROCESS TREE
+// ===================================
+
+// Next.js and tsx run child processes of their own - stop the whole tree
+export function killTree(pid: number): void {
+    try {
+        if (process.platform === 'win32') {
+            spawnSync('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+        } else {
+            process.kill(-pid, 'SIGTERM'); // Started detached, so it leads its own group
+        }
+    } catch {
+        // Already gone
+    }
+}
+
+// ===================================
+// SUPERVISOR
+// ===================================
+
+export function createSupervisor(
+    services: ServiceSpec[],
+    log: (name: string, line: string) => void,
+    onChange: () => void = () => { }
+): Supervisor {
+    const children = new Map<string, ChildProcess>();
+    const crashes = new Map<string, number>(); // Crashes in a row per service
+    let stopping = false;
+
+    const run = (service: ServiceSpec) => {
+        const startedAt = Date.now();
+        const child = spawn(service.command, service.args, {
+            cwd: service.cwd,
+            env: { ...process.env, ...service.env },
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32',
+            windowsHide: true,
+        });
+        children.set(service.name, child);
+        onChange();
+
+        for (const stream of [child.stdout, child.stderr]) {
+            if (stream) readline.createInterface({ input: stream }).on('line', line => log(service.name, line));
+        }
+
+        child.on('error', error => log('siren', `${service.name} could not start: ${error.message}`));
+
+        child.on('exit', (code, signal) => {
+            if (children.get(service.name) === child) children.delete(service.name);
+            onChange();
+            if (stopping) return;
+
+            // Leftovers from the crashed process would hold its port
+            if (child.pid) killTree(child.pid);
+
+            const count = Date.now() - startedAt > STABLE_AFTER_MS ? 0 : (crashes.get(service.name) || 0);
+            crashes.set(service.name, count + 1);
+
+            const delay = Math.min(FIRST_RESTART_DELAY_MS * 2 ** count, MAX_RESTART_DELAY_MS);
+            log('siren', `${service.name} exited (${signal || `code ${code}`}) - restarting in ${delay / 1000}s`);
+            setTimeout(() => {
+                if (!stopping) run(service);
+            }, delay);
+        });
+    };
+
+    return {
+        start() {
+            services.forEach(run);
+        },
+
+        async stop() {
+            stopping = true;
+            const running = [...children.values()];
+
+            await Promise.all(running.map(child => new Promise<void>(resolve => {
+                if (child.exitCode !== null || child.signalCode !== null || !child.pid) return resolve();
+
+                const timer = setTimeout(() => {
+                    if (process.platform !== 'win32' && child.pid) {
+                        try { process.kill(-child.pid, 'SIGKILL'); } catch { /* Already gone */ }
+                    }
+                    resolve();
+                }, STOP_TIMEOUT_MS);
+                child.once('exit', () => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+                killTree(child.pid);
+            })));
+        },
+
+        pids() {
+            return Object.fromEntries(
+                [...children].flatMap(([name, child]) => (child.pid ? [[name, child.pid]] : []))
+            );
+        },
+    };
+}
@@ -0,0 +1,282 @@
+/**
+ * PROJECT SIREN - Transparency Report
+ *
+ * Turns the visitor's own fingerprint (./fingerprint, kept in their
+ * browser) into the "here is what we collected" report on /reveal:
+ * every field their browser gave away, grouped by category, with why it
+ * matters and how to limit it. Runs entirely client-side.
+ */
+
+import type { Fingerprint } from './fingerprint';
+
+// ===================================
+// TYPES
+// ===================================
+
+export interface TransparencyField {
+    label: string;
+    value: string;
+    why: string;   // Why an attacker or tracker cares
+    limit: string; // What the visitor can do about it
+}
+
+export interface TransparencyCategory {
+    id: string;
+    title: string;
+    icon: string;
+    fields: TransparencyField[];
+}
+
+// ===================================
+// FORMATTING
+// ===================================
+
+function yesNo(value: boolean): string {
+    return value ? 'Yes' : 'No';
+}
+
+// Offset as UTC+05:30 (getTimezoneOffset() is minutes behind UTC)
+function utcOffset(minutes: number): string {
+    const ahead = -minutes;
+    const sign = ahead >= 0 ? '+' : '-';
+    const hours = String(Math.floor(Math.abs(ahead) / 60)).padStart(2, '0');
+    const mins = String(Math.abs(ahead) % 60).padStart(2, '0');
+    return `UTC${sign}${hours}:${mins}`;
+}
+
+// Empty and unknown values were not given away
+function known(value: string): boolean {
+    return value !== '' && value.toLowerCase() !== 'unknown' && value !== '0';
+}
+
+function field(label: string, value: string | number, why: string, limit: string): TransparencyField | null {
+    const text = String(value).trim();
+    return known(text) ? { label, value: text, why, limit } : null;
+}
+
+function category(id: string, title: string, icon: string, fields: (TransparencyField | null)[]): TransparencyCategory {
+    return { id, title, icon, fields: fields.filter((f): f is TransparencyField => f !== null) };
+}
+
+// ===================================
+// REPORT
+// ===================================
+
+/**
+ * Build the report from a fingerprint. Categories with nothing to show are left out.
+ */
+export function buildTransparencyReport(fp: Fingerprint): TransparencyCategory[] {
+    const { device, browser, display, network, locale, capabilities, hardware } = fp;
+
+    const report = [
+        category('device', 'Your Device', '📱', [
+            field(
+                'Operating system',
+                `${device.os} ${device.osVersion}`,
+                'Tells an attacker which known security holes your device may still have.',
+                'Install system updates as soon as they arrive.'
+            ),
+            field(
+                'Maker and model',
+                [device.vendor, device.model].filter(known).join(' '),
+                'Narrows you down to a handful of people and hints at what you can afford.',
+                'Browsers with privacy modes (Brave, Firefox, Safari) reveal less about the model.'
+            ),
+            field(
+                'Device type',
+                device.isTablet ? 'Tablet' : device.isMobile ? 'Phone' : 'Computer',
+                'Scams are tailored to the device - fake app updates for phones, fake antivirus for computers.',
+                'Be suspicious of any page that "knows" your device and urges you to act.'
+            ),
+        ]),
+        category('browser', 'Your Browser', '🌐', [
+            field(
+                'Browser',
+                `${browser.name} ${browser.version}`,
+                'An outdated browser is the easiest way into a device.',
+                'Turn on automatic browser updates.'
+            ),
+            field(
+                'Engine',
+                browser.engine,
+                'Lets sites pick attacks that work on your browser family.',
+                'Keeping the browser updated closes engine bugs too.'
+            ),
+            field(
+                'User agent',
+                browser.userAgent,
+                'This one line is sent with every request and combines your OS, browser and version.',
+                'Some browsers shorten it - Brave and Firefox with resistFingerprinting do.'
+            ),
+            field(
+                'Platform',
+                browser.platform,
+                'Confirms your operating system even if the user agent is changed.',
+                'Fingerprint-resistant browsers report a generic value.'
+            ),
+            field(
+                'Cookies enabled',
+                yesNo(browser.cookiesEnabled),
+                'Cookies let sites recognise you on every visit and follow you across sites.',
+                'Block third-party cookies and clear cookies regularly.'
+            ),
+            field(
+                'Do Not Track',
+                browser.doNotTrack ? 'On' : 'Off',
+                'Ironically, turning it on makes you slightly more unique - and most sites ignore it.',
+                'Rely on tracker blocking instead of the Do Not Track signal.'
+            ),
+        ]),
+        category('display', 'Your Screen', '🖥️', [
+            field(
+                'Screen size',
+                `${display.screenWidth} × ${display.screenHeight}`,
+                'Combined with other fields, screen size helps single out your exact device.',
+                'Fingerprint-resistant browsers round or fake the reported size.'
+            ),
+            field(
+                'Window size',
+                `${display.viewportWidth} × ${display.viewportHeight}`,
+                'Your window size is almost unique to you right now and helps link your visits.',
+                'A maximised window or a standard size is harder to single out.'
+            ),
+            field(
+                'Pixel ratio',
+                `${display.pixelRatio}x`,
+                'Separates high-end displays from budget ones.',
+                'Only fingerprint-resistant browsers hide this.'
+            ),
+            field(
+                'Color depth',
+                `${display.colorDepth}-bit`,
+                'One more detail that adds to your fingerprint.',
+                'Only fingerprint-resistant browsers hide this.'
+            ),
+            field(
+                'Touch points',
+                display.maxTouchPoints,
+                'Confirms whether this is a touch device, and which kind.',
+                'Cannot be turned off - another reason fingerprints work.'
+            ),
+        ]),
+        category('network', 'Your Connection', '📶', [
+            field(
+                'Connection type',
+                network.connectionType,
+                'Shows whether you are on Wi-Fi or mobile data - on public Wi-Fi you are easier to target.',
+                'Use mobile data or a trusted VPN instead of unknown Wi-Fi.'
+            ),
+            field(
+                'Network speed',
+                network.effectiveType !== 'unknown'
+                    ? `${network.effectiveType.toUpperCase()}${network.downlink ? `, ~${network.downlink} Mbps` : ''}`
+                    : '',
+                'Speed and latency hint at your network and roughly where you are.',
+                'Firefox and Safari do not expose this at all.'
+            ),
+            field(
+                'Round-trip time',
+                network.rtt ? `${network.rtt} ms` : '',
+                'Latency helps guess how far you are from the server.',
+                'A VPN changes what this reveals.'
+            ),
+            field(
+                'Data saver',
+                network.saveData ? 'On' : '',
+                'Suggests a limited data plan.',
+                'Turn it off when you do not need it.'
+            ),
+        ]),
+        category('locale', 'Your Location and Language', '🕐', [
+            field(
+                'Time zone',
+                `${locale.timezone} (${utcOffset(locale.timezoneOffset)})`,
+                'Reveals roughly where you live, even without location permission.',
+                'Fingerprint-resistant browsers report UTC instead.'
+            ),
+            field(
+                'Languages',
+                (locale.languages.length > 0 ? locale.languages : [locale.language]).join(', '),
+                'Your language list is surprisingly personal and is used to pick which scam to show you.',
+                'Keep only the languages you need in browser settings.'
+            ),
+        ]),
+        category('hardware', 'Your Hardware', '⚙️', [
+            field(
+                'Graphics card',
+                capabilities.webGLRenderer,
+                'The exact GPU name is one of the strongest fingerprint signals there is.',
+                'Firefox (resistFingerprinting), Brave and Safari hide or generalise it.'
+            ),
+            field(
+                'Graphics vendor',
+                capabilities.webGLVendor,
+                'Narrows down your device maker.',
+                'Same as above - use a fingerprint-resistant browser.'
+            ),
+            field(
+                'CPU cores',
+                hardware.cpuCores,
+                'Hints at how new and expensive your device is.',
+                'Fingerprint-resistant browsers report a fixed number.'
+            ),
+            field(
+                'Memory',
+                hardware.deviceMemory ? `${hardware.deviceMemory} GB or more` : '',
+                'Another clue to your device model and price range.',
+                'Firefox and Safari do not expose this.'
+            ),
+        ]),
+        category('capabilities', 'What Your Browser Allows', '🔌', [
+            field(
+                'Battery status',
+                capabilities.battery ? 'Available' : '',
+                'Battery level and charging state can link you across sites for a few minutes.',
+                'Firefox and Safari removed this - consider switching.'
+            ),
+            field(
+                'WebRTC',
+                capabilities.webRTC ? 'Available' : '',
+                'Video calling features can leak your real IP address, even behind a VPN.',
+                'Use a browser or extension that stops WebRTC IP leaks.'
+            ),
+            field(
+                'Bluetooth',
+                capabilities.bluetooth ? 'Available' : '',
+                'Sites can ask to talk to nearby devices.',
+                'Never approve Bluetooth requests from sites you do not trust.'
+            ),
+            field(
+                'Notifications',
+                capabilities.notifications ? 'Available' : '',
+                'Scam sites ask for notifications to keep sending fake alerts after you leave.',
+                'Click "Block" when an unknown site asks to send notifications.'
+            ),
+            field(
+                'Location access',
+                capabilities.geolocation ? 'Available' : '',
+                'One tap on "Allow" gives a site your exact position.',
+                'Only allow location for maps and delivery apps you trust.'
+            ),
+            field(
+                'Offline storage',
+                [
+                    capabilities.localStorage && 'local storage',
+                    capabilities.indexedDB && 'IndexedDB',
+                    capabilities.serviceWorker && 'service workers',
+                ].filter(Boolean).join(', '),
+                'Sites can store identifiers that survive clearing cookies.',
+                'Clear "all site data", not just cookies, or use private browsing.'
+            ),
+        ]),
+    ];
+
+    return report.filter(c => c.fields.length > 0);
+}
+
+/**
+ * Number of fields in a report
+ */
+export function countFields(report: TransparencyCategory[]): number {
+    return report.reduce((total, c) => total + c.fields.length, 0);
+}
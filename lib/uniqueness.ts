@@ -0,0 +1,205 @@
+/**
+ * PROJECT SIREN - Browser Uniqueness
+ *
+ * Panopticlick-style lesson: how many of today's visitors share each
+ * fingerprint attribute, and how rare the whole combination is.
+ * Every visitor's attributes are kept here as short digests when their
+ * profile is recorded (./sessions, which also persists them), so the
+ * counts cover the whole day and not just the profiles the 100-profile
+ * cap keeps. GET /api/uniqueness returns counts only, never values.
+ */
+
+import { createHash } from 'crypto';
+import type { VictimProfile } from './sessions';
+
+// ===================================
+// ATTRIBUTES
+// ===================================
+
+interface Attribute {
+    key: string;
+    label: string;
+    value: (profile: VictimProfile) => string;
+}
+
+// Fingerprint attributes compared between visitors (see lib/fingerprint.ts)
+const ATTRIBUTES: Attribute[] = [
+    { key: 'device', label: 'Device type', value: p => p.device.type },
+    { key: 'os', label: 'Operating system', value: p => `${p.device.os} ${p.device.osVersion}` },
+    { key: 'model', label: 'Maker and model', value: p => `${p.device.vendor} ${p.device.model}` },
+    { key: 'browser', label: 'Browser', value: p => `${p.browser.name} ${p.browser.version}` },
+    { key: 'userAgent', label: 'User agent', value: p => p.browser.userAgent },
+    { key: 'platform', label: 'Platform', value: p => p.browser.platform },
+    { key: 'languages', label: 'Languages', value: p => (p.browser.languages || []).join(',') || p.browser.language },
+    { key: 'doNotTrack', label: 'Do Not Track', value: p => String(p.browser.doNotTrack) },
+    { key: 'screen', label: 'Screen size', value: p => `${p.display.screenWidth}x${p.display.screenHeight}` },
+    { key: 'pixelRatio', label: 'Pixel ratio', value: p => String(p.display.pixelRatio) },
+    { key: 'colorDepth', label: 'Color depth', value: p => String(p.display.colorDepth) },
+    { key: 'touchPoints', label: 'Touch points', value: p => String(p.display.maxTouchPoints) },
+    { key: 'timezone', label: 'Time zone', value: p => p.locale.timezone },
+    { key: 'gpu', label: 'Graphics card', value: p => p.capabilities.webGLRenderer },
+    { key: 'cpuCores', label: 'CPU cores', value: p => String(p.hardware.cpuCores) },
+    { key: 'memory', label: 'Memory', value: p => String(p.hardware.deviceMemory) },
+];
+
+// ===================================
+// TYPES
+// ===================================
+
+// How varied one attribute is across today's visitors
+export interface AttributeSummary {
+    key: string;
+    label: string;
+    distinct: number; // Different values seen
+    unique: number;   // Visitors nobody else shares this value with
+}
+
+// How common one visitor's value is
+export interface AttributeMatch {
+    key: string;
+    label: string;
+    shared: number; // Visitors with the same value, the visitor included
+}
+
+/**
+ * Response of GET /api/uniqueness - read by /reveal and /presenter as is
+ */
+export interface UniquenessResponse {
+    visitors: number;       // Visitors recorded today
+    uniqueVisitors: number; // ...whose full fingerprint nobody else shares
+    attributes: AttributeSummary[];
+    you?: {                 // Only when ?sessionId= names a visitor recorded today
+        attributes: AttributeMatch[];
+        shared: number;     // Visitors with the same full fingerprint
+        oneIn: number;      // "1 in N" - visitors / shared
+    };
+}
+
+// One visitor's attributes, as digests in ATTRIBUTES order
+export interface FingerprintEntry {
+    recordedAt: string;
+    values: string[];
+}
+
+// ===================================
+// STATE
+// Uses globalThis to persist across Next.js API route instances
+// ===================================
+
+declare global {
+    var sirenFingerprints: Map<string, FingerprintEntry> | undefined;
+}
+
+// sessionId -> that visitor's attributes
+const fingerprints: Map<string, FingerprintEntry> = globalThis.sirenFingerprints || new Map();
+globalThis.sirenFingerprints = fingerprints;
+
+// Equal values compare equal; the values themselves are not kept
+function digest(value: string): string {
+    return createHash('sha256').update(value).digest('base64url').slice(0, 12);
+}
+
+export function fingerprintOf(profile: VictimProfile): FingerprintEntry {
+    return {
+        recordedAt: profile.timestamp,
+        values: ATTRIBUTES.map(attribute => digest(attribute.value(profile))),
+    };
+}
+
+export function recordFingerprint(sessionId: string, entry: FingerprintEntry): void {
+    fingerprints.set(sessionId, entry);
+}
+
+/**
+ * Remove a visitor's attributes (visitor erase). Returns whether there were any.
+ */
+export function forgetFingerprint(sessionId: string): boolean {
+    return fingerprints.delete(sessionId);
+}
+
+/**
+ * Drop attributes recorded before the cutoff (epoch ms); they no longer
+ * count towards today. Returns the sessionIds dropped.
+ */
+export function forgetFingerprintsBefore(cutoff: number): string[] {
+    const dropped = [...fingerprints]
+        .filter(([, entry]) => new Date(entry.recordedAt).getTime() < cutoff)
+        .map(([sessionId]) => sessionId);
+    dropped.forEach(sessionId => fingerprints.delete(sessionId));
+    return dropped;
+}
+
+export function getFingerprints(): [string, FingerprintEntry][] {
+    return [...fingerprints];
+}
+
+export function resetFingerprints(): void {
+    fingerprints.clear();
+}
+
+// ===================================
+// FREQUENCY TABLES
+// ===================================
+
+// Midnight, server time
+export function startOfToday(): number {
+    const midnight = new Date();
+    midnight.setHours(0, 0, 0, 0);
+    return midnight.getTime();
+}
+
+function todaysFingerprints(): Map<string, FingerprintEntry> {
+    const midnight = startOfToday();
+    return new Map([...fingerprints].filter(([, entry]) => new Date(entry.recordedAt).getTime() >= midnight));
+}
+
+function countValues(values: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return counts;
+}
+
+function combined(entry: FingerprintEntry): string {
+    return entry.values.join(' ');
+}
+
+/**
+ * Frequency counts for today's visitors, plus the standing of the
+ * visitor with this sessionId if they are among them
+ */
+export function getUniqueness(sessionId?: string): UniquenessResponse {
+    const today = todaysFingerprints();
+    const entries = [...today.values()];
+
+    const tables = ATTRIBUTES.map((_, i) => countValues(entries.map(entry => entry.values[i])));
+    const combinations = countValues(entries.map(combined));
+
+    const response: UniquenessResponse = {
+        visitors: entries.length,
+        uniqueVisitors: [...combinations.values()].filter(count => count === 1).length,
+        attributes: ATTRIBUTES.map((attribute, i) => ({
+            key: attribute.key,
+            label: attribute.label,
+            distinct: tables[i].size,
+            unique: [...tables[i].values()].filter(count => count === 1).length,
+        })),
+    };
+
+    const entry = sessionId ? today.get(sessionId) : undefined;
+    if (entry) {
+        const shared = combinations.get(combined(entry)) || 1;
+        response.you = {
+            attributes: ATTRIBUTES.map((attribute, i) => ({
+                key: attribute.key,
+                label: attribute.label,
+                shared: tables[i].get(entry.values[i]) || 1,
+            })),
+            shared,
+            oneIn: Math.round(entries.length / shared),
+        };
+    }
+
+    return response;
+}
@@ -0,0 +1,109 @@
+/**
+ * PROJECT SIREN - Scenario Navigator
+ *
+ * The hook every exhibit page uses to move the visitor on, instead of
+ * pushing a hardcoded route. It follows the scenario (./scenarios) the
+ * visitor started with - asked from /api/scenario on their first page
+ * and kept in sessionStorage - applies its skip rules and runs the
+ * step's automatic advance timer.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getPermissions } from './globalStream';
+import { findStep, getScenario, nextStep, PAGE_PATHS, Scenario, ScenarioPage, SCENARIOS, VisitorContext } from './scenarios';
+
+const SCENARIO_KEY = 'siren_scenario';
+
+/**
+ * The visitor's scenario: the one they started with, else the active one
+ */
+async function loadScenario(): Promise<Scenario> {
+    const stored = getScenario(sessionStorage.getItem(SCENARIO_KEY));
+    if (stored) return stored;
+
+    try {
+        const res = await fetch('/api/scenario');
+        const data = await res.json();
+        const scenario = getScenario(data.scenarioId);
+        if (scenario) {
+            sessionStorage.setItem(SCENARIO_KEY, scenario.id);
+            return scenario;
+        }
+    } catch (error) {
+        console.error('[Scenario] Failed to load scenario:', error);
+    }
+    return SCENARIOS[0];
+}
+
+function visitorContext(): VisitorContext {
+    let portalData = false;
+    try {
+        const victim = JSON.parse(sessionStorage.getItem('siren_victim') || 'null');
+        portalData = !!(victim?.name || victim?.phone || victim?.email);
+    } catch {
+        // Unreadable portal data counts as none
+    }
+
+    return {
+        portalData,
+        camera: getPermissions().camera,
+        mobile: /mobi|android|iphone|ipad/i.test(navigator.userAgent),
+    };
+}
+
+function nextPath(scenario: Scenario, page: ScenarioPage): string | undefined {
+    const step = nextStep(scenario, page, visitorContext());
+    return step ? PAGE_PATHS[step.page] : undefined;
+}
+
+export interface ScenarioNavigator {
+    scenario: Scenario;
+    // Move on to the next step; does nothing at the end of the scenario
+    next: () => void;
+    // Path of the next step for links; undefined at the end or until loaded
+    nextHref?: string;
+}
+
+export function useScenarioNavigator(page: ScenarioPage): ScenarioNavigator {
+    const router = useRouter();
+    // The full scenario until the visitor's own is loaded - the original chain
+    const [state, setState] = useState<{ scenario: Scenario; nextHref?: string; loaded: boolean }>({
+        scenario: SCENARIOS[0],
+        loaded: false,
+    });
+    const advanced = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadScenario().then((scenario) => {
+            if (!cancelled) setState({ scenario, nextHref: nextPath(scenario, page), loaded: true });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [page]);
+
+    const { scenario, nextHref, loaded } = state;
+
+    const next = useCallback(() => {
+        if (advanced.current) return;
+
+        const path = nextPath(scenario, page);
+        if (!path) return;
+
+        advanced.current = true;
+        router.push(path);
+    }, [router, scenario, page]);
+
+    // The step's automatic advance
+    useEffect(() => {
+        const delay = loaded ? findStep(scenario, page)?.advanceAfterMs : undefined;
+        if (delay === undefined) return;
+
+        const timer = setTimeout(next, delay);
+        return () => clearTimeout(timer);
+    }, [loaded, scenario, page, next]);
+
+    return { scenario, next, nextHref };
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { isProbePath } from '@/lib/probes';
 
 export function middleware(request: NextRequest) {
     // ============================================
@@ -20,9 +22,9 @@ export function middleware(request: NextRequest) {
     // EXHIBITION MODE ONLY (Local Network)
     // ============================================
     // CONFIGURATION
-    // The official IP of the station running the exhibition
-    const TARGET_IP = '192.168.0.50';
-    const TARGET_HOST = '192.168.0.50';
+    // The official IP of the station running the exhibition (siren.config.ts)
+    const TARGET_IP = getConfig().network.exhibitIp;
+    const TARGET_HOST = TARGET_IP;
 
     // Get the host header from the request (e.g. "google.com" or "192.168.0.50")
     const host = request.headers.get('host') || '';
@@ -36,9 +38,14 @@ export function middleware(request: NextRequest) {
 
     // NETWORK ENGINEER NOTE: 
     // If the user requests "connectivitycheck.gstatic.com" or "captive.apple.com",
-    // they are checking for internet. By redirecting them to our IP, we are saying
-    // "Hey, look over here instead". The OS will see this redirect (307) and 
-    // correctly interpret it as a captive portal login page.
+    // they are checking for internet. Known probe URLs go to their own route
+    // handlers (lib/captivePortal.ts), which redirect to us until the visitor
+    // has seen /reveal and then answer "online" so the captive sheet closes.
+    // Anything else on a foreign host is redirected here, which the OS also
+    // interprets as a captive portal login page.
+    if (isProbePath(request.nextUrl.pathname)) {
+        return NextResponse.next();
+    }
 
     if (!allowedHosts.includes(hostname)) {
         // Determine the destination URL
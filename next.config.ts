@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
+import { getPublicConfig } from "./lib/config";
+
+// Loading the exhibition config here stops `next dev`, `next build` and
+// `next start` with a ConfigError if siren.config.ts or .env.local is invalid
+const publicConfig = getPublicConfig();
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Read in the browser by lib/publicConfig.ts
+    SIREN_PUBLIC_CONFIG: JSON.stringify(publicConfig),
+  },
 };
 
 export default nextConfig;
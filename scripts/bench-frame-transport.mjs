@@ -0,0 +1,117 @@
+/**
+ * PROJECT SIREN - Frame Transport Benchmark
+ *
+ * Replays the server-side work of both live frame pipelines and prints
+ * bandwidth and CPU per second of streaming:
+ *   json   - base64 data URL in a JSON POST, re-serialized into an SSE
+ *            message and encoded once per admin client
+ *   binary - raw JPEG POST, written to each admin as an MJPEG part
+ * The frame is random bytes of a typical 480x360 q0.6 JPEG size; only
+ * its size matters to either pipeline.
+ *
+ * Usage: npm run bench:frames -- [--frame-kb 18] [--fps 20] [--admins 2] [--seconds 10]
+ */
+
+import { randomBytes } from 'crypto';
+
+function readArg(name, fallback) {
+    const index = process.argv.indexOf(`--${name}`);
+    return index > -1 ? Number(process.argv[index + 1]) : fallback;
+}
+
+const frameKb = readArg('frame-kb', 18);
+const fps = readArg('fps', 20);
+const admins = readArg('admins', 2);
+const seconds = readArg('seconds', 10);
+const frameCount = fps * seconds;
+
+const jpeg = randomBytes(Math.round(frameKb * 1024));
+const encoder = new TextEncoder();
+
+// ===================================
+// PIPELINES
+// ===================================
+
+// Request body as the visitor's browser builds it (client-side cost, not timed)
+const jsonBody = JSON.stringify({
+    sessionId: 'siren_bench',
+    frame: `data:image/jpeg;base64,${jpeg.toString('base64')}`,
+    audioLevel: 42,
+    location: null,
+    permissions: { camera: true, microphone: true, geolocation: false },
+    capturedAt: new Date().toISOString(),
+});
+
+function jsonPipeline() {
+    const body = JSON.parse(jsonBody);
+    const message = `data: ${JSON.stringify({ type: 'media_update', media: { ...body, isLive: true } })}\n\n`;
+
+    let bytesOut = 0;
+    for (let i = 0; i < admins; i++) {
+        bytesOut += encoder.encode(message).byteLength;
+    }
+    return { bytesIn: jsonBody.length, bytesOut };
+}
+
+const metadataHeader = JSON.stringify({
+    sessionId: 'siren_bench',
+    audioLevel: 42,
+    location: null,
+    permissions: { camera: true, microphone: true, geolocation: false },
+    capturedAt: new Date().toISOString(),
+});
+
+function binaryPipeline() {
+    JSON.parse(metadataHeader);
+    const frame = new Uint8Array(jpeg);
+
+    let bytesOut = 0;
+    for (let i = 0; i < admins; i++) {
+        const header = encoder.encode(
+            `--sirenframe\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.byteLength}\r\n\r\n`
+        );
+        bytesOut += header.byteLength + frame.byteLength + 2;
+    }
+    return { bytesIn: frame.byteLength + metadataHeader.length, bytesOut };
+}
+
+// ===================================
+// MEASUREMENT
+// ===================================
+
+function measure(pipeline) {
+    // Warm up the JIT so the first pipeline measured is not penalized
+    for (let i = 0; i < 50; i++) pipeline();
+
+    let bytesIn = 0;
+    let bytesOut = 0;
+    const start = process.cpuUsage();
+    for (let i = 0; i < frameCount; i++) {
+        const result = pipeline();
+        bytesIn += result.bytesIn;
+        bytesOut += result.bytesOut;
+    }
+    const used = process.cpuUsage(start);
+    const cpuMs = (used.user + used.system) / 1000;
+
+    return {
+        inKBps: bytesIn / 1024 / seconds,
+        outKBps: bytesOut / 1024 / seconds,
+        cpuMsPerSec: cpuMs / seconds,
+        cpuUsPerFrame: (cpuMs * 1000) / frameCount,
+    };
+}
+
+const json = measure(jsonPipeline);
+const binary = measure(binaryPipeline);
+
+const percentSaved = (before, after) => `${Math.round((1 - after / before) * 100)}%`;
+const row = (label, a, b, unit, digits = 0) =>
+    console.log(`${label.padEnd(26)}${a.toFixed(digits).padStart(12)}${b.toFixed(digits).padStart(12)} ${unit.padEnd(8)}${percentSaved(a, b).padStart(8)}`);
+
+console.log(`Frame ${frameKb} KB, ${fps} fps, ${admins} admin client(s), ${seconds}s per pipeline\n`);
+console.log(`${''.padEnd(26)}${'json'.padStart(12)}${'binary'.padStart(12)} ${''.padEnd(8)}${'saved'.padStart(8)}`);
+row('Upload per visitor', json.inKBps, binary.inKBps, 'KB/s');
+row('Download to admins', json.outKBps, binary.outKBps, 'KB/s');
+row('Server CPU per frame', json.cpuUsPerFrame, binary.cpuUsPerFrame, 'us', 1);
+row('Server CPU per second', json.cpuMsPerSec, binary.cpuMsPerSec, 'ms/s', 1);
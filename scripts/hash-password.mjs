@@ -0,0 +1,20 @@
+/**
+ * PROJECT SIREN - Admin Password Hasher
+ *
+ * Prints a scrypt hash for SIREN_ADMIN_PASSWORD_HASH in .env.local.
+ * Usage: npm run hash-password -- <password>
+ */
+
+import { randomBytes, scryptSync } from 'crypto';
+
+const password = process.argv[2];
+
+if (!password) {
+    console.error('Usage: npm run hash-password -- <password>');
+    process.exit(1);
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(password, salt, 64);
+
+console.log(`scrypt:${salt.toString('hex')}:${hash.toString('hex')}`);
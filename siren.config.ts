@@ -0,0 +1,86 @@
+/**
+ * PROJECT SIREN - Exhibition Configuration
+ *
+ * The one place to set up an exhibition. The web server, the DNS server
+ * and the pages all read these values (through lib/config.ts). Each one
+ * can be overridden with the environment variable next to it, e.g. in
+ * .env.local. Both servers refuse to start if the values do not fit
+ * together.
+ */
+
+import type { SirenConfig } from './lib/config';
+
+const config: SirenConfig = {
+    network: {
+        // SIREN_EXHIBIT_IP - the laptop's static IP, outside the router's DHCP range.
+        // Every lookup is answered with it and foreign hosts are redirected to it.
+        exhibitIp: '192.168.0.50',
+        // SIREN_SSID - Wi-Fi name shown on the portal and the dashboard (set the router to match)
+        ssid: 'FREE_SCHOOL_WIFI',
+        // SIREN_TRUST_PROXY - only with a reverse proxy in front of the web server:
+        // visitor addresses are then taken from its X-Forwarded-For header
+        trustProxy: false,
+    },
+    dns: {
+        // SIREN_DNS_RESOLVER - what answers visitors who finished: "upstream" or "stub"
+        resolver: 'upstream',
+        // SIREN_DNS_UPSTREAM - where visitors who finished get real answers, as IP[:port]
+        upstream: '8.8.8.8',
+        // SIREN_DNS_STUB - fixed answers for the "stub" resolver (tests, no internet),
+        // as { 'host.name': 'IPv4' }; in the environment "host=IP,host=IP"
+        stub: {},
+        // SIREN_DNS_PORT - 53 needs Administrator rights
+        port: 53,
+    },
+    scam: {
+        // SIREN_FINE_AMOUNT - the "digital arrest" fine, in rupees
+        fineAmount: 185000,
+    },
+    exhibit: {
+        // SIREN_EXHIBITOR - who runs the booth, named in the notice before the camera opens
+        exhibitor: 'Team Hackminors',
+        // SIREN_SCHOOL - optional, shown after the exhibitor
+        school: 'South Point High School',
+    },
+    admin: {
+        // SIREN_ADMIN_USERNAME
+        username: 'admin',
+        // SIREN_ADMIN_PASSWORD_HASH - from `npm run hash-password`. Keep it in
+        // .env.local rather than here; empty disables the dashboard login.
+        passwordHash: '',
+    },
+    privacy: {
+        // SIREN_PII_MODE - how portal names, phones and emails are stored and shown:
+        // 'full', 'masked' (98XXXXXX12) or 'hashed' (#3fa91c0b2e)
+        piiMode: 'masked',
+        // SIREN_PII_HASH_KEY - fixed key for 'hashed', so digests survive a restart.
+        // Keep it in .env.local; empty picks a random key at every start.
+        piiHashKey: '',
+    },
+    retention: {
+        // How long visitor data is kept: '90s', '2m', '1h' or 'keep'
+        frames: '2m',    // SIREN_RETENTION_FRAMES - live camera frames
+        pii: '1h',       // SIREN_RETENTION_PII - name, phone, email, IP
+        profiles: '8h',  // SIREN_RETENTION_PROFILES - device profiles
+        sweep: '15s',    // SIREN_RETENTION_SWEEP - how often expired data is purged
+    },
+    storage: {
+        // SIREN_STORAGE - 'memory' (lost on restart), 'jsonl' or 'sqlite' (Node 22.5+)
+        backend: 'memory',
+        // SIREN_STORAGE_PATH - empty: data/siren-sessions.jsonl or data/siren-sessions.db
+        path: '',
+    },
+    broker: {
+        // SIREN_BROKER - 'memory' for one server process, 'socket' to share state
+        // between processes (the DNS server needs it; `siren start` sets it)
+        backend: 'memory',
+        // SIREN_BROKER_SOCKET - empty: <tmp>/siren-broker.sock, \\.\pipe\siren-broker on Windows
+        socket: '',
+    },
+    scenario: {
+        // SIREN_SCENARIO - visitor path at startup: 'full', 'junior' or 'quick' (lib/scenarios.ts)
+        id: 'full',
+    },
+};
+
+export default config;
@@ -0,0 +1,51 @@
+/**
+ * Type declarations for the parts of dns2 used by lib/dnsServer.ts
+ * (the package ships none, and @types/dns2 leaves out Packet.parse and
+ * the header fields).
+ */
+declare module 'dns2' {
+    import type { RemoteInfo } from 'dgram';
+    import type { EventEmitter } from 'events';
+
+    interface Question {
+        name: string;
+        type: number;
+        class: number;
+    }
+
+    interface Resource {
+        name: string;
+        type: number;
+        class: number;
+        ttl: number;
+        address?: string;
+    }
+
+    class Packet {
+        static TYPE: { A: number; AAAA: number; [type: string]: number };
+        static CLASS: { IN: number; [cls: string]: number };
+        static parse(buffer: Buffer): Packet;
+        static createResponseFromRequest(request: Packet): Packet;
+
+        header: { id: number; qr: number; rcode: number; [field: string]: number };
+        questions: Question[];
+        answers: Resource[];
+        authorities: Resource[];
+        additionals: Resource[];
+        toBuffer(): Buffer;
+    }
+
+    type ListenOptions = number | { port: number; address?: string };
+
+    interface DnsServer extends EventEmitter {
+        listen(options: { udp?: ListenOptions }): Promise<unknown>;
+        close(): Promise<void>;
+    }
+
+    type Handler = (request: Packet, send: (response: Packet | Buffer) => void, client: RemoteInfo) => void;
+
+    function createServer(options: { udp?: boolean; tcp?: boolean; handle: Handler }): DnsServer;
+
+    export { Packet, createServer };
+    export type { DnsServer, Handler, Question, Resource };
+}
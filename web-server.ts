@@ -0,0 +1,67 @@
+/**
+ * PROJECT SIREN - Web Server
+ *
+ * Runs the Next.js app on a plain Node HTTP server instead of `next start`,
+ * so the app knows which visitor it is talking to: X-Forwarded-For is set
+ * to the connection's address, replacing whatever the visitor's browser
+ * sent. Released clients (lib/captivePortal.ts) are keyed by that address,
+ * so a forged header must not release someone else. Only with
+ * network.trustProxy (a reverse proxy in front that sets the header) is
+ * the incoming header kept.
+ *
+ * Port 80 needs Administrator rights on Windows, sudo elsewhere.
+ *
+ * Usage: npm start (production build), npm run dev (development)
+ */
+
+import http from 'http';
+import { loadEnvConfig } from '@next/env';
+import next from 'next';
+import { ConfigError, getConfig } from './lib/config';
+import { WEB_PORT } from './lib/preflight';
+
+async function main() {
+    const dev = process.argv.includes('--dev');
+    const port = Number(process.env.PORT) || WEB_PORT;
+
+    loadEnvConfig(process.cwd(), dev);
+
+    let trustProxy: boolean;
+    try {
+        trustProxy = getConfig().network.trustProxy;
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(`\n${error.message}\n`);
+        process.exit(1);
+    }
+
+    const app = next({ dev, port });
+    const handle = app.getRequestHandler();
+    await app.prepare();
+
+    const server = http.createServer((req, res) => {
+        if (!trustProxy) {
+            req.headers['x-forwarded-for'] = req.socket.remoteAddress;
+            delete req.headers['x-real-ip'];
+        }
+        handle(req, res);
+    });
+    server.on('upgrade', app.getUpgradeHandler()); // Hot reload in development
+
+    server.on('error', (err: NodeJS.ErrnoException) => {
+        if (err.code === 'EACCES') {
+            console.error(`[Web] Permission denied on port ${port} - run as Administrator (Windows) or with sudo.`);
+        } else if (err.code === 'EADDRINUSE') {
+            console.error(`[Web] Port ${port} is already in use.`);
+        } else {
+            console.error('[Web] Server error:', err);
+        }
+        process.exit(1);
+    });
+
+    server.listen(port, () => {
+        console.log(`[Web] Ready on http://localhost:${port}${dev ? ' (development)' : ''}`);
+    });
+}
+
+main();